@@ -0,0 +1,272 @@
+// Minimal tus 1.0.0 server for exercising the resumable upload mode offline.
+// Supports the creation and termination extensions, plus GET on the endpoint
+// (JSON list of finished uploads), GET on an upload (download) and PUT/GET on
+// {upload}/thumbnail for the preview image the uploader generates.
+//
+//   npm run dev:tus
+//   VITE_UPLOAD_ADAPTER=tus VITE_UPLOAD_ENDPOINT=http://localhost:1080/files npm run dev
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+import { once } from 'node:events';
+import { createReadStream, createWriteStream, existsSync, mkdirSync } from 'node:fs';
+import { readFile, readdir, rm, stat, truncate, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+const PORT = Number(process.env.TUS_PORT ?? 1080);
+const BASE_PATH = '/files';
+const STORAGE_DIR = path.resolve(process.env.TUS_STORAGE_DIR ?? '.tus-uploads');
+const TUS_HEADERS = {
+  'Tus-Resumable': '1.0.0',
+  'Tus-Version': '1.0.0',
+  'Tus-Extension': 'creation,termination',
+};
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, POST, PATCH, PUT, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers':
+    'Content-Type, Upload-Length, Upload-Offset, Upload-Metadata, Tus-Resumable',
+  'Access-Control-Expose-Headers':
+    'Location, Upload-Offset, Upload-Length, Upload-Metadata, Tus-Resumable, Tus-Version, Tus-Extension',
+};
+
+const MAX_THUMBNAIL_BYTES = 1024 * 1024;
+
+mkdirSync(STORAGE_DIR, { recursive: true });
+
+const dataPath = (id) => path.join(STORAGE_DIR, id);
+const infoPath = (id) => path.join(STORAGE_DIR, `${id}.json`);
+const thumbnailPath = (id) => path.join(STORAGE_DIR, `${id}.thumbnail`);
+
+const readInfo = async (id) => {
+  if (!/^[\w-]+$/.test(id) || !existsSync(infoPath(id))) return null;
+  return JSON.parse(await readFile(infoPath(id), 'utf8'));
+};
+
+const decodeMetadata = (header = '') =>
+  Object.fromEntries(
+    header
+      .split(',')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key, value = ''] = pair.trim().split(' ');
+        return [key, Buffer.from(value, 'base64').toString('utf8')];
+      })
+  );
+
+const encodeMetadata = (metadata) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${Buffer.from(value, 'utf8').toString('base64')}`)
+    .join(',');
+
+// Same scheme as the client: "report.dmp" -> "report (1).dmp" -> "report (2).dmp"
+const createUniqueFileName = (name, takenNames) => {
+  const taken = new Set(takenNames);
+  if (!taken.has(name)) return name;
+
+  const dotIndex = name.lastIndexOf('.');
+  const [base, extension] = dotIndex > 0 ? [name.slice(0, dotIndex), name.slice(dotIndex)] : [name, ''];
+  const stem = base.replace(/ \(\d+\)$/, '');
+  for (let counter = 1; ; counter++) {
+    const candidate = `${stem} (${counter})${extension}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+};
+
+const readAllInfos = async () => {
+  const names = (await readdir(STORAGE_DIR)).filter((name) => name.endsWith('.json'));
+  const infos = await Promise.all(names.map((name) => readInfo(name.replace(/\.json$/, ''))));
+  return infos.filter(Boolean);
+};
+
+const removeUpload = async (id) => {
+  await rm(dataPath(id), { force: true });
+  await rm(thumbnailPath(id), { force: true });
+  await rm(infoPath(id), { force: true });
+};
+
+const parseJson = (text) => {
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const toFileInfo = (info, origin) => ({
+  id: info.id,
+  name: info.metadata.filename ?? info.id,
+  url: `${origin}${BASE_PATH}/${info.id}`,
+  size: info.length,
+  type: info.metadata.filetype ?? '',
+  hash: info.metadata.sha256,
+  metadata: parseJson(info.metadata.metadata),
+  thumbnailUrl: info.thumbnailType ? `${origin}${BASE_PATH}/${info.id}/thumbnail` : undefined,
+});
+
+const send = (res, status, headers = {}, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, ...TUS_HEADERS, ...headers });
+  res.end(body);
+};
+
+const handlers = {
+  OPTIONS: (req, res) => send(res, 204),
+
+  POST: async (req, res) => {
+    const length = Number(req.headers['upload-length']);
+    if (!Number.isInteger(length) || length < 0) return send(res, 400, {}, 'Invalid Upload-Length');
+
+    // onconflict (rename, replace or fail) says what to do when the name is
+    // taken, as with the other upload modes; unfinished uploads hold their name too
+    const metadata = decodeMetadata(req.headers['upload-metadata']);
+    const existing = await readAllInfos();
+    const { filename, onconflict = 'rename' } = metadata;
+    const sameName = filename ? existing.filter((info) => info.metadata.filename === filename) : [];
+    if (sameName.length > 0) {
+      if (onconflict === 'fail') return send(res, 409, {}, `A file named ${filename} already exists`);
+      if (onconflict === 'replace') {
+        await Promise.all(sameName.map((info) => removeUpload(info.id)));
+      } else {
+        metadata.filename = createUniqueFileName(filename, existing.map((info) => info.metadata.filename));
+      }
+    }
+
+    const id = randomUUID();
+    const info = { id, length, offset: 0, metadata };
+    await writeFile(dataPath(id), '');
+    await writeFile(infoPath(id), JSON.stringify(info));
+    // The stored name may differ from the requested one after a rename
+    send(res, 201, { Location: `${BASE_PATH}/${id}`, 'Upload-Metadata': encodeMetadata(metadata) });
+  },
+
+  HEAD: async (req, res, id) => {
+    const info = id && (await readInfo(id));
+    if (!info) return send(res, 404);
+    send(res, 200, {
+      'Upload-Offset': String(info.offset),
+      'Upload-Length': String(info.length),
+      'Upload-Metadata': encodeMetadata(info.metadata),
+      'Cache-Control': 'no-store',
+    });
+  },
+
+  PATCH: async (req, res, id) => {
+    const info = id && (await readInfo(id));
+    if (!info) return send(res, 404);
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') return send(res, 415);
+    if (Number(req.headers['upload-offset']) !== info.offset) return send(res, 409, {}, 'Offset mismatch');
+
+    const remaining = info.length - info.offset;
+    const declaredLength = req.headers['content-length'];
+    if (declaredLength !== undefined && Number(declaredLength) > remaining) {
+      return send(res, 413, {}, 'Upload exceeds Upload-Length');
+    }
+
+    // Drop bytes an earlier PATCH wrote after the last saved offset
+    await truncate(dataPath(id), info.offset);
+
+    // Append whatever arrives, so a dropped connection still keeps the received bytes
+    const output = createWriteStream(dataPath(id), { flags: 'a' });
+    let received = 0;
+    let overflow = false;
+    try {
+      for await (const chunk of req) {
+        received += chunk.length;
+        // Keep draining so the 413 still reaches the client
+        if (overflow || received > remaining) {
+          overflow = true;
+          continue;
+        }
+        if (!output.write(chunk)) await once(output, 'drain');
+      }
+    } catch {
+      // Aborted request, save the offset of what did arrive
+    }
+    output.end();
+    await once(output, 'close');
+
+    if (overflow) {
+      await truncate(dataPath(id), info.offset);
+      return send(res, 413, {}, 'Upload exceeds Upload-Length');
+    }
+
+    info.offset = (await stat(dataPath(id))).size;
+    await writeFile(infoPath(id), JSON.stringify(info));
+    send(res, 204, { 'Upload-Offset': String(info.offset) });
+  },
+
+  DELETE: async (req, res, id) => {
+    const info = id && (await readInfo(id));
+    if (!info) return send(res, 404);
+    await removeUpload(id);
+    send(res, 204);
+  },
+
+  GET: async (req, res, id) => {
+    const origin = `http://${req.headers.host}`;
+    if (!id) {
+      const finished = (await readAllInfos()).filter((info) => info.offset === info.length);
+      return send(res, 200, { 'Content-Type': 'application/json' }, JSON.stringify(finished.map((info) => toFileInfo(info, origin))));
+    }
+
+    const info = await readInfo(id);
+    if (!info || info.offset !== info.length) return send(res, 404);
+    res.writeHead(200, {
+      ...CORS_HEADERS,
+      'Content-Type': info.metadata.filetype || 'application/octet-stream',
+      'Content-Length': String(info.length),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(info.metadata.filename ?? id)}`,
+    });
+    createReadStream(dataPath(id)).pipe(res);
+  },
+};
+
+const thumbnailHandlers = {
+  OPTIONS: (req, res) => send(res, 204),
+
+  PUT: async (req, res, id) => {
+    const info = await readInfo(id);
+    if (!info) return send(res, 404);
+
+    const chunks = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size <= MAX_THUMBNAIL_BYTES) chunks.push(chunk);
+    }
+    if (size > MAX_THUMBNAIL_BYTES) return send(res, 413, {}, 'Thumbnail too large');
+
+    await writeFile(thumbnailPath(id), Buffer.concat(chunks));
+    info.thumbnailType = req.headers['content-type'] || 'application/octet-stream';
+    await writeFile(infoPath(id), JSON.stringify(info));
+    send(res, 204);
+  },
+
+  GET: async (req, res, id) => {
+    const info = await readInfo(id);
+    if (!info?.thumbnailType) return send(res, 404);
+    res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': info.thumbnailType });
+    createReadStream(thumbnailPath(id)).pipe(res);
+  },
+};
+
+createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  if (pathname !== BASE_PATH && !pathname.startsWith(`${BASE_PATH}/`)) return send(res, 404);
+
+  // /files/{id} or /files/{id}/thumbnail
+  const [id, subresource] = pathname.slice(BASE_PATH.length + 1).split('/');
+  if (subresource !== undefined && subresource !== 'thumbnail') return send(res, 404);
+
+  const handler = (subresource ? thumbnailHandlers : handlers)[req.method];
+  if (!handler) return send(res, 405);
+
+  try {
+    await handler(req, res, id || null);
+  } catch (error) {
+    console.error(error);
+    if (!res.headersSent) send(res, 500);
+  }
+}).listen(PORT, () => {
+  console.log(`tus dev server listening on http://localhost:${PORT}${BASE_PATH}`);
+});
@@ -1,15 +1,77 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import { Upload, FileUp, AlertCircle, Check, X, Download, Loader2, Eye, EyeOff } from 'lucide-react';
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import { Upload, FileUp, AlertCircle, Check, X, Download, Loader2, Eye, EyeOff, Pin, PinOff, Pause, Play } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Progress } from '@/components/ui/progress';
 import { cn } from '@/lib/utils';
+import { createAbortError, delay, isAbortError, throwIfAborted } from '@/lib/abort';
+import { defaultRetryOptions, getRetryDelay, RetryOptions } from '@/lib/retry';
+import { UploadHttpError } from '@/lib/uploadErrors';
+import { selectNextUploads, UploadPriority } from '@/lib/uploadScheduler';
+import {
+  createDefaultValidationRules,
+  runValidationRules,
+  ValidationResult,
+  ValidationRule,
+} from '@/lib/validationRules';
+import { createImageConstraintRules, ImageConstraints } from '@/lib/imageRules';
+import { formatDuration, formatFileSize } from '@/lib/format';
+import { hashFile } from '@/lib/fileHash';
+import { createUniqueFileName } from '@/lib/fileNameConflicts';
+import { fileNameSpoofingRule, revealHiddenCharacters, sanitizeFileName } from '@/lib/fileNameSanitizer';
+import { ArchiveConstraints, createArchiveRules } from '@/lib/archiveRules';
+import { LoadedPreview, loadPreview, Previewer, unloadPreview } from '@/lib/previewers';
+import { builtinPreviewers } from '@/components/previewers';
+import { usePreviewers } from '@/hooks/use-previewers';
+import { extractFileMetadata } from '@/lib/fileMetadata';
+import { MinidumpSummary } from '@/lib/minidump';
+import { PdfMetadata } from '@/lib/pdfDocument';
+import { generateThumbnail } from '@/lib/thumbnails';
+import { MinidumpCrashReason, MinidumpSummaryCard } from '@/components/previewers/MinidumpPreview';
+import { PdfDocumentInfo, PdfMetadataCard } from '@/components/previewers/PdfPreview';
 
 export interface FileUploaderProps {
   maxSizeInMB?: number;
   allowedFileTypes?: string[];
-  onFileUpload: (file: File) => Promise<UploadedFileInfo>;
+  onFileUpload: (file: File, options?: UploadOptions) => Promise<UploadedFileInfo>;
+  onFileRemove?: (file: UploadedFileInfo) => Promise<void>;
+  getDownloadUrl?: (file: UploadedFileInfo) => Promise<string>;
+  // 本地校验通过后调用的异步校验，通常是服务器端的预检（文件名占用、剩余配额等）
+  onValidate?: (file: File, options?: PreflightOptions) => Promise<ValidationResult>;
+  initialFiles?: UploadedFileInfo[];
+  retry?: RetryOptions;
+  maxConcurrentUploads?: number;
+  uploadPriority?: UploadPriority;
+  duplicatePolicy?: DuplicatePolicy;
+  conflictPolicy?: ConflictPolicy;
+  // 自定义校验策略；不传时使用由 maxSizeInMB 和 allowedFileTypes 生成的默认规则
+  validationRules?: ValidationRule[];
+  // 图片尺寸、宽高比和像素数限制，在校验阶段解码图片检查
+  imageConstraints?: ImageConstraints;
+  // 压缩包解压大小、压缩比、条目数和禁止的文件类型，只读取中央目录，不解压
+  archiveConstraints?: ArchiveConstraints;
+  // 文件名包含 RTL 覆盖、同形字符等仿冒手法时：warn 仅提示，block 拒绝上传
+  fileNameSpoofingPolicy?: FileNameSpoofingPolicy;
+  // 规范化后的文件名最多占用的 UTF-8 字节数
+  maxFileNameBytes?: number;
+  // 自定义预览器，优先于 PreviewerProvider 注册的和内置的预览器
+  previewers?: Previewer[];
+  // 把生成的缩略图随原文件一起上传（适配器支持时）；默认只在本地显示
+  uploadThumbnails?: boolean;
   className?: string;
 }
 
@@ -19,201 +81,745 @@ export interface UploadedFileInfo {
   url: string;
   size: number;
   type: string;
+  // SHA-256 of the file content, lowercase hex
+  hash?: string;
+  // Name as selected by the user, when it differs from the stored name
+  originalName?: string;
+  metadata?: UploadedFileMetadata;
+  // Small preview image: the server's URL when the thumbnail was uploaded,
+  // otherwise an object URL that lives as long as the uploader
+  thumbnailUrl?: string;
 }
 
+// Structured facts extracted from the content before upload and stored with the file
+export interface UploadedFileMetadata {
+  minidump?: MinidumpSummary;
+  pdf?: PdfMetadata;
+}
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  // SHA-256 computed before upload, for server-side dedupe and integrity checks
+  hash?: string;
+  // Name to store the file under, when it differs from file.name
+  fileName?: string;
+  // What the server should do if fileName is already taken there
+  conflict?: ServerConflictStrategy;
+  metadata?: UploadedFileMetadata;
+  // Small preview image to store with the file, when uploadThumbnails is on
+  thumbnail?: Blob;
+  // Something the adapter could not send as asked, e.g. metadata over a size limit
+  onWarning?: (message: string) => void;
+}
+
+export type ServerConflictStrategy = 'rename' | 'replace' | 'fail';
+
+export interface PreflightOptions {
+  // Name the file will be stored under, when it differs from file.name
+  fileName?: string;
+  hash?: string;
+  signal?: AbortSignal;
+}
+
+export type UploadStatus =
+  | 'queued'
+  | 'validating'
+  | 'hashing'
+  | 'checking'
+  | 'uploading'
+  | 'done'
+  | 'skipped'
+  | 'failed';
+
+// 内容与已有文件相同时：warn 仅提示，skip 跳过上传
+export type DuplicatePolicy = 'warn' | 'skip';
+
+// 与已有文件同名时：ask 弹窗询问，rename 自动改名，replace 覆盖，skip 跳过
+export type ConflictPolicy = 'ask' | 'rename' | 'replace' | 'skip';
+
+export type FileNameSpoofingPolicy = 'warn' | 'block';
+type ConflictResolution = Exclude<ConflictPolicy, 'ask'>;
+
+interface ConflictPrompt {
+  fileName: string;
+  batchId: string;
+  resolve: (resolution: ConflictResolution) => void;
+}
+
+export type { ValidationResult, ValidationRule };
+
+export interface UploadQueueItem extends ValidationResult {
+  id: string;
+  file: File;
+  // 同一次拖拽或选择的文件属于同一批次，用于“应用到全部”
+  batchId: string;
+  // 规范化并解决重名冲突后实际使用的文件名
+  uploadName?: string;
+  status: UploadStatus;
+  // 置顶的文件优先于其他排队文件开始上传
+  pinned?: boolean;
+  progress?: UploadProgress;
+  startedAt?: number;
+  hash?: string;
+  // 当前是第几次尝试，以及上一次可重试失败的原因
+  attempt?: number;
+  retryError?: string;
+}
+
+const statusLabels: Record<UploadStatus, string> = {
+  queued: '等待中',
+  validating: '校验中',
+  hashing: '计算哈希',
+  checking: '检查中',
+  uploading: '上传中',
+  done: '已完成',
+  skipped: '已跳过',
+  failed: '失败',
+};
+
+const isFinished = (status: UploadStatus) => status === 'done' || status === 'skipped' || status === 'failed';
+
+const createQueueId = () => Math.random().toString(36).substring(2, 15);
+
 export const FileUploader: React.FC<FileUploaderProps> = ({
   maxSizeInMB = 5,
-  allowedFileTypes = ['image/jpeg', 'image/png', 'application/pdf', 'application/octet-stream'],
+  allowedFileTypes = ['image/jpeg', 'image/png', 'application/pdf', 'application/octet-stream', '.dmp'],
   onFileUpload,
+  onFileRemove,
+  getDownloadUrl,
+  onValidate,
+  initialFiles,
+  retry,
+  maxConcurrentUploads = 3,
+  uploadPriority = 'fifo',
+  duplicatePolicy = 'warn',
+  conflictPolicy = 'ask',
+  validationRules,
+  imageConstraints,
+  archiveConstraints,
+  fileNameSpoofingPolicy = 'warn',
+  maxFileNameBytes,
+  previewers,
+  uploadThumbnails = false,
   className,
 }) => {
   const [isDragging, setIsDragging] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
+  const [queue, setQueue] = useState<UploadQueueItem[]>([]);
+  const [isPaused, setIsPaused] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFileInfo[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [warnings, setWarnings] = useState<string[]>([]);
-  const [fileContents, setFileContents] = useState<{ [key: string]: string }>({});
+  const [previews, setPreviews] = useState<{ [key: string]: LoadedPreview }>({});
   const [showPreview, setShowPreview] = useState<{ [key: string]: boolean }>({});
+  const [loadingPreviews, setLoadingPreviews] = useState<{ [key: string]: boolean }>({});
+  // 本次会话上传的原始 File，展开预览时才读取内容
+  const sourceFiles = useRef(new Map<string, File>());
+  // 本地生成的缩略图 object URL，移除文件或卸载组件时释放
+  const thumbnailUrls = useRef(new Map<string, string>());
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortControllers = useRef(new Map<string, AbortController>());
+  const startedIds = useRef(new Set<string>());
+  const [conflictPrompt, setConflictPrompt] = useState<ConflictPrompt | null>(null);
+  const [applyToBatch, setApplyToBatch] = useState(false);
+  const pendingPrompts = useRef<ConflictPrompt[]>([]);
+  const batchResolutions = useRef(new Map<string, ConflictResolution>());
+  // 异步流程中需要读取最新的列表来查重
+  const uploadedFilesRef = useRef(uploadedFiles);
+  uploadedFilesRef.current = uploadedFiles;
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+  const showPreviewRef = useRef(showPreview);
+  showPreviewRef.current = showPreview;
   const { toast } = useToast();
+  const registeredPreviewers = usePreviewers();
+  const previewerRegistry = [...(previewers ?? []), ...registeredPreviewers, ...builtinPreviewers];
+  const previewerRegistryRef = useRef(previewerRegistry);
+  previewerRegistryRef.current = previewerRegistry;
 
-  const validateFile = (file: File): boolean => {
-    const newWarnings: string[] = [];
-    
-    if (file.size > maxSizeInMB * 1024 * 1024) {
-      setError(`文件大小超过 ${maxSizeInMB}MB 限制`);
-      return false;
-    }
+  const validationPolicy = [
+    ...(validationRules ?? createDefaultValidationRules({ maxSizeInMB, allowedFileTypes })),
+    ...(imageConstraints ? createImageConstraintRules(imageConstraints) : []),
+    ...createArchiveRules(archiveConstraints),
+    fileNameSpoofingRule(fileNameSpoofingPolicy === 'block' ? 'error' : 'warning'),
+  ];
 
-    // 检查文件类型，对于 .dmp 文件特殊处理
-    const isDmpFile = file.name.toLowerCase().endsWith('.dmp');
-    if (allowedFileTypes.length > 0 && !allowedFileTypes.includes(file.type) && !isDmpFile) {
-      setError(`不支持的文件类型。支持的类型: ${allowedFileTypes.join(', ')}, .dmp files`);
-      return false;
-    }
+  const validateFile = (file: File): Promise<ValidationResult> => runValidationRules(file, validationPolicy);
 
-    // 添加警告检查
-    if (file.size > (maxSizeInMB * 0.8) * 1024 * 1024) {
-      newWarnings.push(`文件大小接近限制 (${formatFileSize(file.size)} / ${maxSizeInMB}MB)`);
-    }
+  const updateQueueItem = (itemId: string, patch: Partial<UploadQueueItem>) => {
+    setQueue((prev) => prev.map((item) => (item.id === itemId ? { ...item, ...patch } : item)));
+  };
 
-    if (file.name.length > 50) {
-      newWarnings.push('文件名过长，建议使用较短的文件名');
-    }
+  // 合并后端已有的文件列表
+  useEffect(() => {
+    if (!initialFiles?.length) return;
+    setUploadedFiles((prev) => [
+      ...prev,
+      ...initialFiles.filter((file) => !prev.some((existing) => existing.id === file.id)),
+    ]);
+  }, [initialFiles]);
 
-    if (!file.name.includes('.')) {
-      newWarnings.push('文件没有扩展名，可能会影响识别');
-    }
+  // 组件卸载时中止所有未完成的上传
+  useEffect(() => {
+    const controllers = abortControllers.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
 
-    setWarnings(newWarnings);
-    setError(null);
-    return true;
-  };
+  // 组件卸载时释放预览占用的 object URL 等资源
+  useEffect(
+    () => () =>
+      Object.values(previewsRef.current).forEach((preview) => unloadPreview(preview, previewerRegistryRef.current)),
+    []
+  );
 
-  const readFileContent = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      
-      if (file.type.startsWith('image/')) {
-        reader.onload = () => resolve(reader.result as string);
-        reader.readAsDataURL(file);
-      } else if (file.type === 'text/plain' || file.type === 'application/json' || file.type === 'text/csv') {
-        reader.onload = () => resolve(reader.result as string);
-        reader.readAsText(file);
-      } else if (file.type === 'application/pdf') {
-        reader.onload = () => resolve(reader.result as string);
-        reader.readAsDataURL(file);
-      } else if (file.name.toLowerCase().endsWith('.dmp')) {
-        resolve('DMP 文件 - 二进制数据文件，无法预览内容');
-      } else {
-        resolve('无法预览此文件类型');
+  useEffect(() => {
+    const urls = thumbnailUrls.current;
+    return () => urls.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
+
+  const retryOptions = { ...defaultRetryOptions, ...retry };
+
+  // 网络错误、5xx、429 等临时失败按指数退避自动重试
+  const uploadWithRetry = async (
+    item: UploadQueueItem,
+    signal: AbortSignal,
+    options: Pick<UploadOptions, 'hash' | 'fileName' | 'conflict' | 'metadata' | 'thumbnail' | 'onWarning'>
+  ) => {
+    for (let attempt = 1; ; attempt++) {
+      updateQueueItem(item.id, { attempt, progress: undefined, startedAt: Date.now() });
+      try {
+        return await onFileUpload(item.file, {
+          ...options,
+          onProgress: (progress) => updateQueueItem(item.id, { progress }),
+          signal,
+        });
+      } catch (error) {
+        if (isAbortError(error) || attempt >= retryOptions.maxAttempts || !retryOptions.isRetryable(error)) {
+          throw error;
+        }
+        updateQueueItem(item.id, {
+          retryError: error instanceof Error ? error.message : '文件上传失败',
+        });
+        await delay(getRetryDelay(attempt, retryOptions, error), signal);
       }
-      
-      reader.onerror = () => reject(new Error('读取文件失败'));
-    });
+    }
   };
 
-  const handleFileUpload = async (file: File) => {
-    if (!validateFile(file)) return;
+  const handleFileUpload = async (item: UploadQueueItem) => {
+    const { file } = item;
+    const displayName = revealHiddenCharacters(file.name);
+    const controller = abortControllers.current.get(item.id);
+    if (!controller || controller.signal.aborted) return;
+    const { signal } = controller;
+
+    updateQueueItem(item.id, { status: 'validating' });
+
+    const { errors, warnings } = await validateFile(file);
+    if (errors.length > 0) {
+      abortControllers.current.delete(item.id);
+      updateQueueItem(item.id, { status: 'failed', errors, warnings });
+      toast({
+        variant: "destructive",
+        title: "校验失败",
+        description: `${displayName}: ${errors.join('; ')}`,
+      });
+      return;
+    }
 
-    setIsUploading(true);
+    updateQueueItem(item.id, { status: 'hashing', errors, warnings });
+    // 元数据解析和缩略图生成与哈希、预检、上传同时进行；文件被跳过、失败或取消时一并中止
+    const backgroundTasks = new AbortController();
+    signal.addEventListener('abort', () => backgroundTasks.abort(), { once: true });
+    // 崩溃转储等文件先解析出摘要，随文件一起保存，分诊时无需下载
+    const metadataTask = extractFileMetadata(file, backgroundTasks.signal).catch((error) => {
+      if (!isAbortError(error)) {
+        warnings.push(`无法解析文件结构: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return undefined;
+    });
+    // 图片、PDF 首页和视频帧在 Worker 中缩放；缩略图只用于展示，生成失败不影响上传
+    const thumbnailTask = generateThumbnail(file, { signal: backgroundTasks.signal }).catch(() => null);
+    let uploaded = false;
     try {
-      // 读取文件内容
-      const content = await readFileContent(file);
-      
-      const uploadedFileInfo = await onFileUpload(file);
+      const hash = await hashFile(file, {
+        onProgress: (loaded) => updateQueueItem(item.id, { progress: { loaded, total: file.size } }),
+        signal,
+      });
+      // 立即写入哈希（包括 ref），同一批中同时算完哈希的相同文件才能互相发现
+      updateQueueItem(item.id, { hash });
+      queueRef.current = queueRef.current.map((queued) => (queued.id === item.id ? { ...queued, hash } : queued));
+
+      const duplicate = findDuplicate(item.id, hash);
+      if (duplicate) {
+        const message = `与${duplicate.uploaded ? '已上传' : '队列中'}的文件 ${duplicate.name} 内容相同`;
+        if (duplicatePolicy === 'skip') {
+          updateQueueItem(item.id, { status: 'skipped', hash, warnings: [...warnings, `${message}，已跳过`] });
+          toast({
+            title: "已跳过重复文件",
+            description: `${displayName}: ${message}`,
+          });
+          return;
+        }
+        warnings.push(message);
+      }
+
+      // 规范化文件名，之后的重名检查、上传和下载都使用规范化后的名称
+      const sanitized = sanitizeFileName(file.name, maxFileNameBytes);
+      if (sanitized.changes.length > 0) {
+        warnings.push(`文件名已规范化为 ${sanitized.name}（${sanitized.changes.join('，')}）`);
+      }
+
+      // 重名冲突：先按本地已知文件解决，再把策略交给服务器执行
+      const takenNames = getTakenNames(item.id);
+      let uploadName = sanitized.name;
+      let resolution: ConflictResolution = conflictPolicy === 'ask' ? 'rename' : conflictPolicy;
+      if (takenNames.has(sanitized.name)) {
+        resolution = conflictPolicy === 'ask' ? await askConflictResolution(item, sanitized.name, signal) : conflictPolicy;
+        if (resolution === 'skip') {
+          updateQueueItem(item.id, { status: 'skipped', hash, warnings: [...warnings, `已存在同名文件 ${sanitized.name}，已跳过`] });
+          return;
+        }
+        if (resolution === 'rename') {
+          uploadName = createUniqueFileName(sanitized.name, takenNames);
+          warnings.push(`已存在同名文件，将重命名为 ${uploadName}`);
+        }
+      }
+
+      // 预检放在规范化和解决重名之后，服务器检查的是实际要保存的文件名
+      if (onValidate) {
+        updateQueueItem(item.id, { status: 'checking', hash, uploadName, warnings });
+        const preflight = await runPreflight(file, uploadName, hash, signal);
+        warnings.push(...preflight.warnings);
+        if (preflight.errors.length > 0) {
+          updateQueueItem(item.id, { status: 'failed', errors: preflight.errors, warnings });
+          toast({
+            variant: "destructive",
+            title: "预检未通过",
+            description: `${displayName}: ${preflight.errors.join('; ')}`,
+          });
+          return;
+        }
+      }
+
+      const metadata = await metadataTask;
+      // 只有缩略图要随文件上传时才等它生成，否则上传完成后再补到列表中
+      const thumbnail = uploadThumbnails ? await thumbnailTask : null;
+      throwIfAborted(signal);
+
+      updateQueueItem(item.id, { status: 'uploading', hash, uploadName, warnings, progress: undefined });
+
+      let uploadResult: UploadedFileInfo;
+      try {
+        uploadResult = await uploadWithRetry(item, signal, {
+          hash,
+          fileName: uploadName,
+          conflict: resolution === 'skip' ? 'fail' : resolution,
+          metadata,
+          thumbnail: uploadThumbnails ? thumbnail?.blob : undefined,
+          // 重试时适配器可能再次报告同一条
+          onWarning: (message) => {
+            if (warnings.includes(message)) return;
+            warnings.push(message);
+            updateQueueItem(item.id, { warnings: [...warnings] });
+          },
+        });
+      } catch (error) {
+        // 本地没有冲突、服务器上却已有同名文件时，skip 策略同样跳过而不是报错
+        if (resolution === 'skip' && error instanceof UploadHttpError && error.status === 409) {
+          updateQueueItem(item.id, { status: 'skipped', warnings: [...warnings, `服务器上已存在同名文件 ${uploadName}，已跳过`] });
+          return;
+        }
+        throw error;
+      }
+
+      const uploadedFileInfo: UploadedFileInfo = { hash, ...uploadResult };
+      // 服务器未返回元数据时保留本地解析的结果
+      uploadedFileInfo.metadata ??= metadata;
+      if (uploadedFileInfo.name !== file.name) {
+        uploadedFileInfo.originalName = file.name;
+      }
+      throwIfAborted(signal);
+      if (resolution === 'replace') {
+        uploadedFilesRef.current
+          .filter((existing) => existing.name === uploadedFileInfo.name && existing.id !== uploadedFileInfo.id)
+          .forEach((existing) => forgetUploadedFile(existing.id));
+      }
       setUploadedFiles((prev) => [...prev, uploadedFileInfo]);
-      setFileContents((prev) => ({ ...prev, [uploadedFileInfo.id]: content }));
+      uploaded = true;
+      if (!uploadedFileInfo.thumbnailUrl) {
+        thumbnailTask.then((generated) => generated && showLocalThumbnail(uploadedFileInfo.id, generated.blob));
+      }
+      sourceFiles.current.set(uploadedFileInfo.id, file);
       setShowPreview((prev) => ({ ...prev, [uploadedFileInfo.id]: false }));
-      setWarnings([]);
+      updateQueueItem(item.id, { status: 'done' });
       toast({
         title: "文件上传成功",
-        description: `${file.name} 已成功上传。`,
+        description: `${displayName} 已成功上传。`,
       });
     } catch (error) {
-      setError(error instanceof Error ? error.message : '文件上传失败');
+      // 用户主动取消，队列项已在 cancelUpload 中移除
+      if (isAbortError(error)) return;
+
+      const message = error instanceof Error ? error.message : '文件上传失败';
+      updateQueueItem(item.id, { status: 'failed', errors: [message] });
       toast({
         variant: "destructive",
         title: "上传失败",
-        description: error instanceof Error ? error.message : '文件上传失败',
+        description: `${displayName}: ${message}`,
       });
     } finally {
-      setIsUploading(false);
+      if (uploaded) {
+        // 上传成功后缩略图可能仍在生成，保留控制器，卸载组件时才能中止它
+        thumbnailTask.finally(() => abortControllers.current.delete(item.id));
+      } else {
+        abortControllers.current.delete(item.id);
+        backgroundTasks.abort();
+      }
     }
   };
 
+  // 生成期间文件若已被移除，object URL 会在卸载组件时释放
+  const showLocalThumbnail = (fileId: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    thumbnailUrls.current.set(fileId, url);
+    setUploadedFiles((prev) => prev.map((file) => (file.id === fileId ? { ...file, thumbnailUrl: url } : file)));
+  };
+
+  // 预检请求本身失败时不阻止上传，服务器在上传时仍会再次检查
+  const runPreflight = async (
+    file: File,
+    fileName: string,
+    hash: string,
+    signal: AbortSignal
+  ): Promise<ValidationResult> => {
+    try {
+      const result = await onValidate(file, { fileName, hash, signal });
+      return { errors: result?.errors ?? [], warnings: result?.warnings ?? [] };
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      return { errors: [], warnings: [`预检请求失败，已跳过服务器检查: ${message}`] };
+    }
+  };
+
+  const getTakenNames = (itemId: string) =>
+    new Set([
+      ...uploadedFilesRef.current.map((file) => file.name),
+      ...queueRef.current
+        // 已完成的文件由 uploadedFilesRef 覆盖，从列表中删除后名称即可再用
+        .filter((item) => item.id !== itemId && item.uploadName && !isFinished(item.status))
+        .map((item) => item.uploadName),
+    ]);
+
+  // 弹窗逐个询问；勾选“应用到全部”后同一批次的其余冲突直接使用该选择
+  const askConflictResolution = (item: UploadQueueItem, fileName: string, signal: AbortSignal) => {
+    const remembered = batchResolutions.current.get(item.batchId);
+    if (remembered) return Promise.resolve(remembered);
+
+    return new Promise<ConflictResolution>((resolve, reject) => {
+      const prompt: ConflictPrompt = {
+        fileName,
+        batchId: item.batchId,
+        resolve: (resolution) => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(resolution);
+        },
+      };
+      const onAbort = () => {
+        pendingPrompts.current = pendingPrompts.current.filter((pending) => pending !== prompt);
+        setConflictPrompt(pendingPrompts.current[0] ?? null);
+        reject(createAbortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      pendingPrompts.current.push(prompt);
+      if (pendingPrompts.current.length === 1) setConflictPrompt(prompt);
+    });
+  };
+
+  const answerConflictPrompt = (resolution: ConflictResolution) => {
+    const [current, ...rest] = pendingPrompts.current;
+    if (!current) return;
+
+    let remaining = rest;
+    if (applyToBatch) {
+      batchResolutions.current.set(current.batchId, resolution);
+      remaining = rest.filter((prompt) => {
+        if (prompt.batchId !== current.batchId) return true;
+        prompt.resolve(resolution);
+        return false;
+      });
+    }
+    current.resolve(resolution);
+
+    pendingPrompts.current = remaining;
+    setConflictPrompt(remaining[0] ?? null);
+    setApplyToBatch(false);
+  };
+
+  const findDuplicate = (itemId: string, hash: string) => {
+    const uploaded = uploadedFilesRef.current.find((file) => file.hash === hash);
+    if (uploaded) return { name: uploaded.name, uploaded: true };
+
+    // 已完成的文件只按 uploadedFilesRef 查重，删除后同样内容可以再次上传
+    const queued = queueRef.current.find(
+      (item) => item.id !== itemId && item.hash === hash && !isFinished(item.status)
+    );
+    return queued ? { name: queued.file.name, uploaded: false } : null;
+  };
+
+  // 每个文件单独入队，由下方的调度逻辑按并发上限依次启动
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return;
+
+    const batchId = createQueueId();
+    const items: UploadQueueItem[] = files.map((file) => ({
+      id: createQueueId(),
+      batchId,
+      file,
+      status: 'queued',
+      errors: [],
+      warnings: [],
+    }));
+    items.forEach((item) => abortControllers.current.set(item.id, new AbortController()));
+    setQueue((prev) => [...prev, ...items]);
+  }, []);
+
+  // 调度只需在队列变化时运行，通过 ref 调用读取最新 props 的 handleFileUpload
+  const handleFileUploadRef = useRef(handleFileUpload);
+  handleFileUploadRef.current = handleFileUpload;
+
+  // 调度：有空闲名额时按优先级启动排队中的文件；暂停时只是不再启动新的上传
+  useEffect(() => {
+    if (isPaused) return;
+
+    const pending = queue.filter((item) => item.status === 'queued' && !startedIds.current.has(item.id));
+    const active = queue.filter(
+      (item) => startedIds.current.has(item.id) && !isFinished(item.status)
+    ).length;
+
+    selectNextUploads(pending, maxConcurrentUploads - active, uploadPriority).forEach((item) => {
+      startedIds.current.add(item.id);
+      handleFileUploadRef.current(item);
+    });
+  }, [queue, isPaused, maxConcurrentUploads, uploadPriority]);
+
   const handleFileDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
       setIsDragging(false);
 
-      if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-        handleFileUpload(e.dataTransfer.files[0]);
+      if (e.dataTransfer.files) {
+        handleFiles(Array.from(e.dataTransfer.files));
       }
     },
-    [handleFileUpload]
+    [handleFiles]
   );
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      handleFileUpload(e.target.files[0]);
+    if (e.target.files) {
+      handleFiles(Array.from(e.target.files));
     }
+    // 重置 input，以便再次选择相同的文件
+    e.target.value = '';
+  };
+
+  const cancelUpload = (item: UploadQueueItem) => {
+    abortControllers.current.get(item.id)?.abort();
+    abortControllers.current.delete(item.id);
+    removeQueueItem(item.id);
+    toast({
+      title: "已取消上传",
+      description: revealHiddenCharacters(item.file.name),
+    });
   };
 
-  const downloadFile = (fileUrl: string, fileName: string) => {
-    const link = document.createElement('a');
-    link.href = fileUrl;
-    link.download = fileName;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const removeQueueItem = (itemId: string) => {
+    setQueue((prev) => prev.filter((item) => item.id !== itemId));
   };
 
-  const removeFile = (fileId: string) => {
+  const togglePinned = (itemId: string) => {
+    setQueue((prev) => prev.map((item) => (item.id === itemId ? { ...item, pinned: !item.pinned } : item)));
+  };
+
+  const clearFinishedItems = () => {
+    setQueue((prev) => prev.filter((item) => !isFinished(item.status)));
+  };
+
+  const activeCount = queue.filter((item) => item.status !== 'queued' && !isFinished(item.status)).length;
+  const queuedCount = queue.filter((item) => item.status === 'queued').length;
+  const hasFailures = queue.some((item) => item.status === 'failed');
+
+  const downloadFile = async (file: UploadedFileInfo) => {
+    try {
+      const fileUrl = getDownloadUrl ? await getDownloadUrl(file) : file.url;
+      const link = document.createElement('a');
+      link.href = fileUrl;
+      link.download = file.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "下载失败",
+        description: error instanceof Error ? error.message : '无法获取下载链接',
+      });
+    }
+  };
+
+  const removeFile = async (file: UploadedFileInfo) => {
+    try {
+      await onFileRemove?.(file);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "删除失败",
+        description: error instanceof Error ? error.message : '文件删除失败',
+      });
+      return;
+    }
+
+    forgetUploadedFile(file.id);
+  };
+
+  const forgetUploadedFile = (fileId: string) => {
     setUploadedFiles((prev) => prev.filter(file => file.id !== fileId));
-    setFileContents((prev) => {
+    evictPreview(fileId);
+    sourceFiles.current.delete(fileId);
+    const thumbnailUrl = thumbnailUrls.current.get(fileId);
+    if (thumbnailUrl) {
+      URL.revokeObjectURL(thumbnailUrl);
+      thumbnailUrls.current.delete(fileId);
+    }
+    setShowPreview((prev) => {
       const { [fileId]: removed, ...rest } = prev;
       return rest;
     });
-    setShowPreview((prev) => {
+  };
+
+  const evictPreview = (fileId: string) => {
+    const preview = previewsRef.current[fileId];
+    if (!preview) return;
+    unloadPreview(preview, previewerRegistry);
+    previewsRef.current = { ...previewsRef.current };
+    delete previewsRef.current[fileId];
+    setPreviews((prev) => {
       const { [fileId]: removed, ...rest } = prev;
       return rest;
     });
   };
 
-  const togglePreview = (fileId: string) => {
-    setShowPreview((prev) => ({ ...prev, [fileId]: !prev[fileId] }));
+  // 异步加载完成时可能还没有重新渲染，ref 需要与 state 同步更新
+  const setPreviewOpen = (fileId: string, open: boolean) => {
+    showPreviewRef.current = { ...showPreviewRef.current, [fileId]: open };
+    setShowPreview((prev) => ({ ...prev, [fileId]: open }));
   };
 
-  const renderFileContent = (file: UploadedFileInfo) => {
-    const content = fileContents[file.id];
-    if (!content) return null;
+  // 展开时才加载预览内容，收起时立即释放
+  const togglePreview = async (fileId: string) => {
+    if (showPreviewRef.current[fileId]) {
+      setPreviewOpen(fileId, false);
+      evictPreview(fileId);
+      return;
+    }
 
-    if (file.type.startsWith('image/')) {
-      return (
-        <div className="mt-3 p-3 bg-gray-50 rounded-md">
-          <img 
-            src={content} 
-            alt={file.name}
-            className="max-w-full max-h-64 object-contain rounded"
-          />
-        </div>
-      );
+    setPreviewOpen(fileId, true);
+    const source = sourceFiles.current.get(fileId);
+    if (!source || previewsRef.current[fileId] || loadingPreviews[fileId]) return;
+
+    setLoadingPreviews((prev) => ({ ...prev, [fileId]: true }));
+    const preview = await loadPreview(source, previewerRegistry);
+    setLoadingPreviews((prev) => {
+      const { [fileId]: removed, ...rest } = prev;
+      return rest;
+    });
+    if (!preview) return;
+
+    // 加载期间预览已被收起、文件已被删除，或另一次加载先完成
+    if (!showPreviewRef.current[fileId] || !sourceFiles.current.has(fileId) || previewsRef.current[fileId]) {
+      unloadPreview(preview, previewerRegistry);
+      return;
     }
+    previewsRef.current = { ...previewsRef.current, [fileId]: preview };
+    setPreviews((prev) => ({ ...prev, [fileId]: preview }));
+  };
 
-    if (file.type === 'application/pdf') {
+  const renderFileContent = (file: UploadedFileInfo) => {
+    if (loadingPreviews[file.id]) {
       return (
-        <div className="mt-3 p-3 bg-gray-50 rounded-md">
-          <iframe
-            src={content}
-            className="w-full h-64 border rounded"
-            title={file.name}
-          />
+        <div className="mt-3 p-3 bg-gray-50 rounded-md flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          正在加载预览…
         </div>
       );
     }
 
-    if (file.type === 'text/plain' || file.type === 'application/json' || file.type === 'text/csv') {
+    if (!sourceFiles.current.has(file.id)) {
+      // 服务器保存了解析结果的转储文件，无需下载也能查看摘要
+      if (file.metadata?.minidump) {
+        return (
+          <div className="mt-3 p-3 bg-gray-50 rounded-md">
+            <MinidumpSummaryCard summary={file.metadata.minidump} />
+          </div>
+        );
+      }
+      if (file.metadata?.pdf) {
+        return (
+          <div className="mt-3 p-3 bg-gray-50 rounded-md">
+            <PdfMetadataCard metadata={file.metadata.pdf} />
+          </div>
+        );
+      }
       return (
-        <div className="mt-3 p-3 bg-gray-50 rounded-md">
-          <pre className="text-sm whitespace-pre-wrap max-h-64 overflow-y-auto">
-            {content}
-          </pre>
+        <div className="mt-3 p-3 bg-gray-50 rounded-md text-center text-muted-foreground">
+          只能预览本次会话中上传的文件
         </div>
       );
     }
 
+    const preview = previews[file.id];
+    const previewer = preview && previewerRegistry.find((candidate) => candidate.id === preview.previewerId);
+    if (!previewer) return null;
+
+    const Preview = previewer.component;
     return (
-      <div className="mt-3 p-3 bg-gray-50 rounded-md text-center text-muted-foreground">
-        {content}
+      <div className="mt-3 p-3 bg-gray-50 rounded-md">
+        <Preview file={file} content={preview.content} />
       </div>
     );
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  const renderProgress = (item: UploadQueueItem) => {
+    const { progress, startedAt } = item;
+    const loaded = progress?.loaded ?? 0;
+    const total = progress?.total || item.file.size;
+    const percent = total > 0 ? Math.min(100, (loaded / total) * 100) : 0;
+
+    // 按开始上传以来的平均速度估算剩余时间
+    const elapsedSeconds = startedAt ? (Date.now() - startedAt) / 1000 : 0;
+    const bytesPerSecond = elapsedSeconds > 0 ? loaded / elapsedSeconds : 0;
+    const remainingSeconds = bytesPerSecond > 0 ? (total - loaded) / bytesPerSecond : null;
+
+    return (
+      <div className="space-y-1">
+        <Progress value={percent} className="h-2" />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>
+            {percent.toFixed(0)}% • {formatFileSize(loaded)} / {formatFileSize(total)}
+          </span>
+          <span>
+            {bytesPerSecond > 0 && `${formatFileSize(bytesPerSecond)}/s`}
+            {remainingSeconds !== null && ` • 剩余 ${formatDuration(remainingSeconds)}`}
+          </span>
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -223,7 +829,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
           "border-2 border-dashed rounded-lg p-6 transition-all duration-150 ease-in-out",
           "flex flex-col items-center justify-center gap-4 text-center",
           isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-primary/50",
-          error ? "border-destructive/50 bg-destructive/5" : ""
+          hasFailures ? "border-destructive/50 bg-destructive/5" : ""
         )}
         onDragOver={(e) => {
           e.preventDefault();
@@ -245,52 +851,132 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
           <Button
             variant="outline"
             onClick={() => inputRef.current?.click()}
-            disabled={isUploading}
           >
-            {isUploading ? (
-              <>
-                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                上传中...
-              </>
-            ) : (
-              <>
-                <Upload className="h-4 w-4 mr-2" />
-                选择文件
-              </>
-            )}
+            <Upload className="h-4 w-4 mr-2" />
+            选择文件
           </Button>
           <input
             type="file"
             ref={inputRef}
             onChange={handleFileInput}
             className="hidden"
-            disabled={isUploading}
+            multiple
           />
           
           <div className="mt-4 text-xs text-muted-foreground">
             <p>最大文件大小: {maxSizeInMB}MB</p>
-            <p>支持的文件类型: {allowedFileTypes.join(', ')}, .dmp files</p>
+            <p>支持的文件类型: {allowedFileTypes.join(', ')}</p>
           </div>
         </div>
       </div>
 
-      {/* 错误警告 */}
-      {error && (
-        <Alert variant="destructive">
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>{error}</AlertDescription>
-        </Alert>
-      )}
+      {queue.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              <h3 className="font-medium">上传队列</h3>
+              <p className="text-xs text-muted-foreground">
+                上传中 {activeCount} / {maxConcurrentUploads} • 等待 {queuedCount}
+                {isPaused && ' • 已暂停'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setIsPaused((prev) => !prev)}>
+                {isPaused ? (
+                  <>
+                    <Play className="h-4 w-4 mr-2" />
+                    继续
+                  </>
+                ) : (
+                  <>
+                    <Pause className="h-4 w-4 mr-2" />
+                    暂停
+                  </>
+                )}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={clearFinishedItems}>
+                清除已结束
+              </Button>
+            </div>
+          </div>
+          <div className="space-y-3">
+            {queue.map((item) => (
+              <div key={item.id} className="bg-background p-4 rounded-md border space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 overflow-hidden">
+                    {item.status !== 'queued' && !isFinished(item.status) && (
+                      <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />
+                    )}
+                    <div className="truncate">
+                      {/* 原始文件名可能含 RTL 覆盖等字符，显示时转成可见的 <U+XXXX> */}
+                      <p className="font-medium truncate">{revealHiddenCharacters(item.file.name)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {item.file.type || '未知类型'} • {formatFileSize(item.file.size)}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {item.status === 'queued' && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title={item.pinned ? '取消置顶' : '置顶优先上传'}
+                        onClick={() => togglePinned(item.id)}
+                      >
+                        {item.pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                      </Button>
+                    )}
+                    <Badge
+                      variant={
+                        item.status === 'failed' ? 'destructive' : item.status === 'done' ? 'default' : 'secondary'
+                      }
+                    >
+                      {statusLabels[item.status]}
+                    </Badge>
+                    {isFinished(item.status) ? (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => removeQueueItem(item.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button variant="outline" size="sm" onClick={() => cancelUpload(item)}>
+                        取消
+                      </Button>
+                    )}
+                  </div>
+                </div>
 
-      {/* 一般警告 */}
-      {warnings.length > 0 && (
-        <div className="space-y-2">
-          {warnings.map((warning, index) => (
-            <Alert key={index} className="border-yellow-500/50 bg-yellow-50 text-yellow-800">
-              <AlertCircle className="h-4 w-4 text-yellow-600" />
-              <AlertDescription>{warning}</AlertDescription>
-            </Alert>
-          ))}
+                {(item.status === 'hashing' || item.status === 'uploading') && renderProgress(item)}
+
+                {item.retryError && item.status !== 'done' && (
+                  <p className="text-xs text-muted-foreground">
+                    第 {item.attempt}/{retryOptions.maxAttempts} 次尝试 • 上次失败: {item.retryError}
+                  </p>
+                )}
+
+                {/* 错误警告 */}
+                {item.errors.map((error, index) => (
+                  <Alert key={`error-${index}`} variant="destructive">
+                    <AlertCircle className="h-4 w-4" />
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                ))}
+
+                {/* 一般警告 */}
+                {item.warnings.map((warning, index) => (
+                  <Alert key={`warning-${index}`} className="border-yellow-500/50 bg-yellow-50 text-yellow-800">
+                    <AlertCircle className="h-4 w-4 text-yellow-600" />
+                    <AlertDescription>{warning}</AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            ))}
+          </div>
         </div>
       )}
 
@@ -305,13 +991,31 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
               >
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-2 overflow-hidden">
-                    <div className="bg-primary/10 p-1 rounded">
-                      <Check className="h-4 w-4 text-primary" />
-                    </div>
+                    {file.thumbnailUrl ? (
+                      <img
+                        src={file.thumbnailUrl}
+                        alt=""
+                        className="h-10 w-10 shrink-0 rounded object-cover bg-muted"
+                      />
+                    ) : (
+                      <div className="bg-primary/10 p-1 rounded">
+                        <Check className="h-4 w-4 text-primary" />
+                      </div>
+                    )}
                     <div className="truncate">
                       <p className="font-medium truncate">{file.name}</p>
+                      <MinidumpCrashReason file={file} />
+                      <PdfDocumentInfo file={file} />
+                      {file.originalName && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          原文件名: {revealHiddenCharacters(file.originalName)}
+                        </p>
+                      )}
                       <p className="text-xs text-muted-foreground">
                         {file.type} • {formatFileSize(file.size)}
+                        {file.hash && (
+                          <span title={file.hash}> • SHA-256 {file.hash.slice(0, 12)}…</span>
+                        )}
                       </p>
                     </div>
                   </div>
@@ -332,7 +1036,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                       variant="outline"
                       size="icon"
                       className="h-8 w-8"
-                      onClick={() => downloadFile(file.url, file.name)}
+                      onClick={() => downloadFile(file)}
                     >
                       <Download className="h-4 w-4" />
                     </Button>
@@ -340,7 +1044,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
                       variant="outline"
                       size="icon"
                       className="h-8 w-8 text-destructive hover:text-destructive"
-                      onClick={() => removeFile(file.id)}
+                      onClick={() => removeFile(file)}
                     >
                       <X className="h-4 w-4" />
                     </Button>
@@ -353,6 +1057,54 @@ export const FileUploader: React.FC<FileUploaderProps> = ({
           </div>
         </div>
       )}
+
+      {/* 重名冲突询问；按钮阻止默认关闭，由 answerConflictPrompt 切换到下一个冲突 */}
+      <AlertDialog
+        open={!!conflictPrompt}
+        onOpenChange={(open) => !open && answerConflictPrompt('skip')}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>文件名冲突</AlertDialogTitle>
+            <AlertDialogDescription>
+              已存在名为 “{conflictPrompt?.fileName}” 的文件，要如何处理？
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={applyToBatch}
+              onCheckedChange={(checked) => setApplyToBatch(checked === true)}
+            />
+            应用到本批次的其余冲突
+          </label>
+          <AlertDialogFooter>
+            <AlertDialogCancel
+              onClick={(e) => {
+                e.preventDefault();
+                answerConflictPrompt('skip');
+              }}
+            >
+              跳过
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                answerConflictPrompt('replace');
+              }}
+            >
+              替换
+            </AlertDialogAction>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                answerConflictPrompt('rename');
+              }}
+            >
+              自动重命名
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
@@ -0,0 +1,12 @@
+import React from 'react';
+import { PreviewerContext } from '@/hooks/use-previewers';
+import { Previewer } from '@/lib/previewers';
+
+interface PreviewerProviderProps {
+  previewers: Previewer[];
+  children: React.ReactNode;
+}
+
+export const PreviewerProvider: React.FC<PreviewerProviderProps> = ({ previewers, children }) => (
+  <PreviewerContext.Provider value={previewers}>{children}</PreviewerContext.Provider>
+);
@@ -0,0 +1,12 @@
+import React from 'react';
+import { UploadAdapterContext } from '@/hooks/use-upload-adapter';
+import { UploadAdapter } from '@/services/uploadAdapter';
+
+interface UploadAdapterProviderProps {
+  adapter: UploadAdapter;
+  children: React.ReactNode;
+}
+
+export const UploadAdapterProvider: React.FC<UploadAdapterProviderProps> = ({ adapter, children }) => (
+  <UploadAdapterContext.Provider value={adapter}>{children}</UploadAdapterContext.Provider>
+);
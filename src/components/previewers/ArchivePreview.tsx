@@ -0,0 +1,58 @@
+import React from 'react';
+import { Lock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatFileSize } from '@/lib/format';
+import { PreviewerProps } from '@/lib/previewers';
+import { getCompressionRatio, isNestedArchive, ZipArchiveInfo } from '@/lib/zipArchive';
+
+// 条目很多时只渲染前面一部分
+const MAX_ROWS = 200;
+
+const formatRatio = (ratio: number) => (Number.isFinite(ratio) ? `${ratio.toFixed(1)}:1` : '∞');
+
+export const ArchivePreview: React.FC<PreviewerProps<ZipArchiveInfo>> = ({ content: archive }) => {
+  const files = archive.entries.filter((entry) => !entry.isDirectory);
+  const rows = files.slice(0, MAX_ROWS);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {files.length} 个文件 • 解压后 {formatFileSize(archive.totalUncompressedSize)} • 压缩比{' '}
+        {formatRatio(archive.compressionRatio)}
+        {archive.nestedArchives.length > 0 && ` • ${archive.nestedArchives.length} 个嵌套压缩包`}
+      </p>
+      <div className="max-h-64 overflow-y-auto rounded border bg-background">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>名称</TableHead>
+              <TableHead className="text-right">大小</TableHead>
+              <TableHead className="text-right">压缩后</TableHead>
+              <TableHead className="text-right">压缩比</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((entry) => (
+              <TableRow key={`${entry.localHeaderOffset}:${entry.name}`}>
+                <TableCell className="py-1 font-mono text-xs break-all">
+                  <span className="inline-flex items-center gap-1">
+                    {entry.encrypted && <Lock className="h-3 w-3 shrink-0" />}
+                    {entry.name}
+                    {isNestedArchive(entry) && <Badge variant="outline">压缩包</Badge>}
+                  </span>
+                </TableCell>
+                <TableCell className="py-1 text-right text-xs">{formatFileSize(entry.uncompressedSize)}</TableCell>
+                <TableCell className="py-1 text-right text-xs">{formatFileSize(entry.compressedSize)}</TableCell>
+                <TableCell className="py-1 text-right text-xs">{formatRatio(getCompressionRatio(entry))}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      {files.length > rows.length && (
+        <p className="text-xs text-muted-foreground">仅显示前 {rows.length} 个文件</p>
+      )}
+    </div>
+  );
+};
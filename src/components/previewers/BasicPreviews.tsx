@@ -0,0 +1,17 @@
+import React from 'react';
+import { PreviewerProps } from '@/lib/previewers';
+
+export const ImagePreview: React.FC<PreviewerProps<string>> = ({ file, content }) => (
+  <img 
+    src={content} 
+    alt={file.name}
+    className="max-w-full max-h-64 object-contain rounded"
+  />
+);
+
+// 无法预览的文件只显示一行说明
+export const MessagePreview: React.FC<PreviewerProps<string>> = ({ content }) => (
+  <div className="text-center text-muted-foreground">
+    {content}
+  </div>
+);
@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Loader2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { isAbortError } from '@/lib/abort';
+import { CsvDialect, detectCsvDialect, detectHeaderRow, streamCsv } from '@/lib/csv';
+import { getFileExtension } from '@/lib/fileSignature';
+import { PreviewerProps } from '@/lib/previewers';
+
+const ROW_HEIGHT = 32;
+const VIEWPORT_HEIGHT = 384;
+const OVERSCAN = 10;
+// 流式读取期间最多每 200ms 刷新一次表格
+const REFRESH_INTERVAL_MS = 200;
+const DIALECT_SAMPLE_BYTES = 64 * 1024;
+const HEADER_SAMPLE_ROWS = 20;
+
+const delimiterLabels: Record<string, string> = {
+  ',': '逗号',
+  '\t': '制表符',
+  ';': '分号',
+  '|': '竖线',
+};
+
+interface SortState {
+  column: number;
+  direction: 'asc' | 'desc';
+}
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// 两边都是数字时按数值比较，否则按自然顺序比较文本
+const compareCells = (a = '', b = '') => {
+  const numberA = a.trim() === '' ? NaN : Number(a);
+  const numberB = b.trim() === '' ? NaN : Number(b);
+  if (!Number.isNaN(numberA) && !Number.isNaN(numberB)) return numberA - numberB;
+  return collator.compare(a, b);
+};
+
+export const CsvPreview: React.FC<PreviewerProps<Blob>> = ({ file, content: blob }) => {
+  // 行数据放在 ref 中逐块追加，rowCount 只用于触发重新渲染
+  const rowsRef = useRef<string[][]>([]);
+  const [rowCount, setRowCount] = useState(0);
+  const [dialect, setDialect] = useState<CsvDialect | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [bytesRead, setBytesRead] = useState(0);
+  const [done, setDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filters, setFilters] = useState<string[]>([]);
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const rows: string[][] = [];
+    rowsRef.current = rows;
+
+    const read = async () => {
+      const preferredDelimiter =
+        blob.type === 'text/tab-separated-values' || getFileExtension(file.name) === 'tsv' ? '\t' : ',';
+      const detected = detectCsvDialect(await blob.slice(0, DIALECT_SAMPLE_BYTES).text(), preferredDelimiter);
+      setDialect(detected);
+
+      let lastRefresh = 0;
+      let headerDecided = false;
+      await streamCsv(blob, detected, {
+        signal: controller.signal,
+        onRows: (completed) => {
+          for (const row of completed) rows.push(row);
+          if (!headerDecided && rows.length >= 2) {
+            headerDecided = true;
+            setHasHeader(detectHeaderRow(rows.slice(0, HEADER_SAMPLE_ROWS)));
+          }
+          if (Date.now() - lastRefresh >= REFRESH_INTERVAL_MS) {
+            lastRefresh = Date.now();
+            setRowCount(rows.length);
+          }
+        },
+        onProgress: setBytesRead,
+      });
+      setRowCount(rows.length);
+      setDone(true);
+    };
+
+    read().catch((error) => {
+      if (!isAbortError(error)) setError(error instanceof Error ? error.message : '读取文件失败');
+    });
+    return () => controller.abort();
+  }, [blob, file.name]);
+
+  const rows = rowsRef.current;
+  const header = hasHeader ? rows[0] : undefined;
+  const firstDataRow = hasHeader ? 1 : 0;
+
+  // 列数由前 100 行决定
+  const columnCount = rows.slice(0, 100).reduce((max, row) => Math.max(max, row.length), 0);
+
+  // 筛选和排序只生成行号数组，不复制行数据
+  const visibleRows = useMemo(() => {
+    let indices = Array.from({ length: Math.max(0, rowCount - firstDataRow) }, (_, i) => i + firstDataRow);
+
+    const activeFilters = filters
+      .map((filter, column) => ({ column, text: filter.trim().toLowerCase() }))
+      .filter(({ text }) => text);
+    if (activeFilters.length > 0) {
+      indices = indices.filter((index) =>
+        activeFilters.every(({ column, text }) => (rows[index][column] ?? '').toLowerCase().includes(text))
+      );
+    }
+
+    if (sort) {
+      const direction = sort.direction === 'asc' ? 1 : -1;
+      indices.sort((a, b) => compareCells(rows[a][sort.column], rows[b][sort.column]) * direction || a - b);
+    }
+    return indices;
+  }, [rows, rowCount, firstDataRow, filters, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort((prev) => {
+      if (prev?.column !== column) return { column, direction: 'asc' };
+      return prev.direction === 'asc' ? { column, direction: 'desc' } : null;
+    });
+  };
+
+  const setFilter = (column: number, value: string) => {
+    setFilters((prev) => {
+      const next = [...prev];
+      next[column] = value;
+      return next;
+    });
+  };
+
+  if (error) {
+    return <p className="text-sm text-destructive">{error}</p>;
+  }
+
+  const columns = Array.from({ length: columnCount }, (_, i) => i);
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(visibleRows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const dataRowCount = Math.max(0, rowCount - firstDataRow);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+        <span>
+          {visibleRows.length === dataRowCount
+            ? `${dataRowCount} 行`
+            : `${visibleRows.length} / ${dataRowCount} 行`}
+          {' '}• {columnCount} 列
+          {dialect && ` • 分隔符: ${delimiterLabels[dialect.delimiter] ?? dialect.delimiter}`}
+        </span>
+        {!done && (
+          <span className="inline-flex items-center gap-1">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            正在读取 {blob.size > 0 ? Math.round((bytesRead / blob.size) * 100) : 0}%
+          </span>
+        )}
+        <label className="ml-auto flex items-center gap-2">
+          <Checkbox checked={hasHeader} onCheckedChange={(checked) => setHasHeader(checked === true)} />
+          首行为表头
+        </label>
+      </div>
+
+      {/* 让 Table 自带的外层 div 成为滚动容器，表头才能 sticky */}
+      <div
+        className="rounded border bg-background [&>div]:h-full"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScrollCapture={(e) => {
+          // 筛选输入框内的滚动也会冒泡到这里，只处理表格容器
+          if (e.target === e.currentTarget.firstElementChild) {
+            setScrollTop((e.target as HTMLElement).scrollTop);
+          }
+        }}
+      >
+        <Table className="text-xs">
+          <TableHeader className="sticky top-0 z-10 bg-background">
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead key={column} className="h-8 whitespace-nowrap">
+                  <button className="inline-flex items-center gap-1" onClick={() => toggleSort(column)}>
+                    {header?.[column] || `列 ${column + 1}`}
+                    {sort?.column === column ? (
+                      sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                    ) : (
+                      <ArrowUpDown className="h-3 w-3 opacity-40" />
+                    )}
+                  </button>
+                </TableHead>
+              ))}
+            </TableRow>
+            <TableRow>
+              {columns.map((column) => (
+                <TableHead key={column} className="h-9 py-1">
+                  <Input
+                    className="h-7 min-w-20 text-xs"
+                    placeholder="筛选…"
+                    value={filters[column] ?? ''}
+                    onChange={(e) => setFilter(column, e.target.value)}
+                  />
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {firstVisible > 0 && <tr style={{ height: firstVisible * ROW_HEIGHT }} />}
+            {visibleRows.slice(firstVisible, lastVisible).map((index) => (
+              <TableRow key={index} style={{ height: ROW_HEIGHT }}>
+                {columns.map((column) => (
+                  <TableCell key={column} className="max-w-xs truncate py-1" title={rows[index][column]}>
+                    {rows[index][column]}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            {lastVisible < visibleRows.length && (
+              <tr style={{ height: (visibleRows.length - lastVisible) * ROW_HEIGHT }} />
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Loader2, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { isAbortError } from '@/lib/abort';
+import { createBlobReader, searchBlob } from '@/lib/blobReader';
+import {
+  formatByte,
+  formatOffset,
+  HexSearchMode,
+  InterpretedValue,
+  interpretBytes,
+  parseOffset,
+  parseSearchPattern,
+  toPrintableAscii,
+} from '@/lib/hexView';
+import { PreviewerProps } from '@/lib/previewers';
+
+const BYTES_PER_ROW = 16;
+const ROW_HEIGHT = 20;
+const VIEWPORT_HEIGHT = 320;
+const VISIBLE_ROWS = Math.ceil(VIEWPORT_HEIGHT / ROW_HEIGHT) + 1;
+// 浏览器对元素高度有上限，超大文件按比例映射滚动位置
+const MAX_SCROLL_HEIGHT = 1000000;
+
+interface Match {
+  offset: number;
+  length: number;
+}
+
+export const HexPreview: React.FC<PreviewerProps<Blob>> = ({ content: blob }) => {
+  const reader = useMemo(() => createBlobReader(blob), [blob]);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const searchController = useRef<AbortController | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [rows, setRows] = useState<{ start: number; bytes: Uint8Array } | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [inspected, setInspected] = useState<InterpretedValue[]>([]);
+  const [match, setMatch] = useState<Match | null>(null);
+  const [offsetInput, setOffsetInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<HexSearchMode>('hex');
+  const [searchProgress, setSearchProgress] = useState<number | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const rowCount = Math.ceil(blob.size / BYTES_PER_ROW);
+  const contentHeight = rowCount * ROW_HEIGHT;
+  const scrollHeight = Math.min(contentHeight, MAX_SCROLL_HEIGHT);
+  const maxScrollTop = Math.max(0, scrollHeight - VIEWPORT_HEIGHT);
+  const maxContentTop = Math.max(0, contentHeight - VIEWPORT_HEIGHT);
+  const contentTop = maxScrollTop > 0 ? (scrollTop / maxScrollTop) * maxContentTop : 0;
+  const firstRow = Math.floor(contentTop / ROW_HEIGHT);
+
+  const showReadError = (error: unknown) =>
+    setMessage(`读取文件失败: ${error instanceof Error ? error.message : String(error)}`);
+
+  // 只读取可见的几行，BlobReader 会缓存附近的数据块
+  useEffect(() => {
+    let cancelled = false;
+    const start = firstRow * BYTES_PER_ROW;
+    reader.read(start, VISIBLE_ROWS * BYTES_PER_ROW)
+      .then((bytes) => {
+        if (!cancelled) setRows({ start, bytes });
+      })
+      .catch((error) => {
+        if (!cancelled) showReadError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reader, firstRow]);
+
+  useEffect(() => {
+    if (selected === null) {
+      setInspected([]);
+      return;
+    }
+    let cancelled = false;
+    reader.read(selected, 8)
+      .then((bytes) => {
+        if (!cancelled) setInspected(interpretBytes(bytes));
+      })
+      .catch((error) => {
+        if (!cancelled) showReadError(error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reader, selected]);
+
+  useEffect(() => () => searchController.current?.abort(), []);
+
+  const scrollToOffset = (offset: number) => {
+    const targetContentTop = Math.min(maxContentTop, Math.floor(offset / BYTES_PER_ROW) * ROW_HEIGHT);
+    const targetScrollTop = maxContentTop > 0 ? (targetContentTop / maxContentTop) * maxScrollTop : 0;
+    if (scrollRef.current) scrollRef.current.scrollTop = targetScrollTop;
+    setScrollTop(targetScrollTop);
+  };
+
+  const jumpToOffset = () => {
+    const offset = parseOffset(offsetInput);
+    if (offset === null || offset >= blob.size) {
+      setMessage(`偏移量无效，应在 0 到 0x${formatOffset(Math.max(0, blob.size - 1), blob.size)} 之间`);
+      return;
+    }
+    setMessage(null);
+    setSelected(offset);
+    scrollToOffset(offset);
+  };
+
+  // 从选中位置之后向前查找，到文件末尾后从头继续
+  const findNext = async () => {
+    const pattern = parseSearchPattern(searchQuery, searchMode);
+    if (!pattern) {
+      setMessage(searchMode === 'hex' ? '请输入偶数位的十六进制字节，例如 4D 44 4D 50' : '请输入要查找的文本');
+      return;
+    }
+
+    searchController.current?.abort();
+    const controller = new AbortController();
+    searchController.current = controller;
+    const from = selected === null ? 0 : selected + 1;
+    setMessage(null);
+    setSearchProgress(0);
+
+    try {
+      const onProgress = (searched: number) => setSearchProgress(searched / blob.size);
+      let found = await searchBlob(blob, pattern, { from, signal: controller.signal, onProgress });
+      if (found === -1 && from > 0) {
+        found = await searchBlob(blob, pattern, { to: from, signal: controller.signal });
+      }
+
+      if (found === -1) {
+        setMessage('未找到匹配内容');
+        setMatch(null);
+      } else {
+        setMatch({ offset: found, length: pattern.length });
+        setSelected(found);
+        scrollToOffset(found);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) showReadError(error);
+    } finally {
+      if (searchController.current === controller) setSearchProgress(null);
+    }
+  };
+
+  const isInMatch = (offset: number) => !!match && offset >= match.offset && offset < match.offset + match.length;
+
+  const renderRow = (rowIndex: number) => {
+    if (!rows) return null;
+    const rowStart = (firstRow + rowIndex) * BYTES_PER_ROW;
+    if (rowStart >= blob.size) return null;
+    const relativeStart = rowStart - rows.start;
+    if (relativeStart < 0 || relativeStart >= rows.bytes.length) return null;
+    const bytes = Array.from(rows.bytes.subarray(relativeStart, relativeStart + BYTES_PER_ROW));
+
+    const cellClass = (offset: number) =>
+      cn(
+        'cursor-pointer rounded-sm',
+        offset === selected ? 'bg-primary text-primary-foreground' : isInMatch(offset) ? 'bg-yellow-200' : 'hover:bg-muted'
+      );
+
+    return (
+      <div key={rowStart} className="flex gap-4 whitespace-pre" style={{ height: ROW_HEIGHT }}>
+        <span className="text-muted-foreground select-none">{formatOffset(rowStart, blob.size)}</span>
+        <span className="flex gap-1">
+          {bytes.map((byte, i) => (
+            <span key={i} className={cn(cellClass(rowStart + i), i === 8 && 'ml-2')} onClick={() => setSelected(rowStart + i)}>
+              {formatByte(byte)}
+            </span>
+          ))}
+        </span>
+        <span className="flex">
+          {bytes.map((byte, i) => (
+            <span key={i} className={cellClass(rowStart + i)} onClick={() => setSelected(rowStart + i)}>
+              {toPrintableAscii(byte)}
+            </span>
+          ))}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <div className="flex gap-2">
+          <Input
+            className="h-8 w-36 font-mono"
+            placeholder="偏移量 0x…"
+            value={offsetInput}
+            onChange={(e) => setOffsetInput(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && jumpToOffset()}
+          />
+          <Button variant="outline" size="sm" onClick={jumpToOffset}>
+            跳转
+          </Button>
+        </div>
+        <div className="flex flex-1 gap-2">
+          <Select value={searchMode} onValueChange={(value) => setSearchMode(value as HexSearchMode)}>
+            <SelectTrigger className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hex">十六进制</SelectItem>
+              <SelectItem value="text">文本</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input
+            className="h-8 flex-1 font-mono"
+            placeholder={searchMode === 'hex' ? '4D 44 4D 50' : '要查找的文本'}
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && findNext()}
+          />
+          <Button variant="outline" size="sm" onClick={findNext} disabled={searchProgress !== null}>
+            {searchProgress !== null ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            {searchProgress !== null ? `${Math.round(searchProgress * 100)}%` : '查找下一个'}
+          </Button>
+        </div>
+      </div>
+      {message && <p className="text-sm text-destructive">{message}</p>}
+
+      <div className="flex flex-col gap-3 lg:flex-row">
+        <div
+          ref={scrollRef}
+          className="flex-1 overflow-auto rounded border bg-background font-mono text-xs"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <div style={{ height: scrollHeight }}>
+            {/* 可见行固定在视口内，按滚动位置平移 */}
+            <div className="sticky top-0 overflow-hidden px-2" style={{ height: VIEWPORT_HEIGHT }}>
+              <div style={{ transform: `translateY(${-(contentTop % ROW_HEIGHT)}px)` }}>
+                {Array.from({ length: VISIBLE_ROWS }, (_, i) => renderRow(i))}
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="w-full space-y-1 rounded border bg-background p-2 text-xs lg:w-64">
+          <p className="font-medium">
+            {selected === null ? '点击字节查看解析值' : `偏移量 0x${formatOffset(selected, blob.size)} (${selected})`}
+          </p>
+          {inspected.map(({ label, value }) => (
+            <div key={label} className="flex justify-between gap-2">
+              <span className="text-muted-foreground">{label}</span>
+              <span className="font-mono truncate" title={value}>{value}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
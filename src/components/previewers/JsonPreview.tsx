@@ -0,0 +1,228 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { AlertCircle, ChevronDown, ChevronRight, Copy, Link } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatJsonPath,
+  getJsonChildren,
+  getSourceExcerpt,
+  isJsonContainer,
+  JsonPathSegment,
+  JsonSyntaxError,
+  parseJsonPath,
+  queryJsonPath,
+} from '@/lib/jsonTree';
+import { PreviewerProps } from '@/lib/previewers';
+
+export type JsonPreviewContent =
+  | { value: unknown }
+  | { error: JsonSyntaxError; text: string };
+
+// 大数组和大对象每次只多渲染一页子节点
+const CHILDREN_PAGE_SIZE = 100;
+const MATCHES_PAGE_SIZE = 50;
+const MAX_STRING_LENGTH = 500;
+
+type CopyHandler = (text: string, label: string) => void;
+
+const describeContainer = (value: Record<string, unknown> | unknown[]) =>
+  Array.isArray(value) ? `[…] ${value.length} 项` : `{…} ${Object.keys(value).length} 个属性`;
+
+const JsonValue: React.FC<{ value: unknown }> = ({ value }) => {
+  if (value === null) return <span className="italic text-muted-foreground">null</span>;
+  if (typeof value === 'string') {
+    const shown = value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+    return <span className="break-all text-green-700">{JSON.stringify(shown)}</span>;
+  }
+  if (typeof value === 'number') return <span className="text-blue-700">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-purple-700">{String(value)}</span>;
+  return null;
+};
+
+interface JsonNodeProps {
+  name?: JsonPathSegment;
+  value: unknown;
+  path: JsonPathSegment[];
+  defaultExpanded: boolean;
+  onCopy: CopyHandler;
+}
+
+const JsonNode: React.FC<JsonNodeProps> = ({ name, value, path, defaultExpanded, onCopy }) => {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const [limit, setLimit] = useState(CHILDREN_PAGE_SIZE);
+  const container = isJsonContainer(value);
+  // 折叠时不枚举子节点
+  const children = useMemo(() => (container && expanded ? getJsonChildren(value) : []), [container, expanded, value]);
+
+  return (
+    <div>
+      <div className="group flex items-start gap-1 rounded px-1 hover:bg-muted">
+        {container ? (
+          <button className="mt-0.5 shrink-0" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+          </button>
+        ) : (
+          <span className="w-3 shrink-0" />
+        )}
+        <span className="min-w-0 flex-1">
+          {name !== undefined && (
+            <span className={typeof name === 'number' ? 'text-muted-foreground' : 'text-foreground'}>
+              {typeof name === 'number' ? name : JSON.stringify(name)}:{' '}
+            </span>
+          )}
+          {container ? (
+            <button className="text-muted-foreground" onClick={() => setExpanded(!expanded)}>
+              {expanded ? (Array.isArray(value) ? '[' : '{') : describeContainer(value)}
+            </button>
+          ) : (
+            <JsonValue value={value} />
+          )}
+        </span>
+        <span className="flex shrink-0 gap-1 opacity-0 group-hover:opacity-100">
+          <button title="复制路径" onClick={() => onCopy(formatJsonPath(path), '路径')}>
+            <Link className="h-3 w-3" />
+          </button>
+          <button
+            title="复制值"
+            onClick={() => onCopy(typeof value === 'string' ? value : JSON.stringify(value, null, 2), '值')}
+          >
+            <Copy className="h-3 w-3" />
+          </button>
+        </span>
+      </div>
+
+      {container && expanded && (
+        <div className="ml-2 border-l pl-2">
+          {children.slice(0, limit).map(([segment, child]) => (
+            <JsonNode
+              key={segment}
+              name={segment}
+              value={child}
+              path={[...path, segment]}
+              defaultExpanded={false}
+              onCopy={onCopy}
+            />
+          ))}
+          {children.length > limit && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-6 px-1 text-xs"
+              onClick={() => setLimit(limit + CHILDREN_PAGE_SIZE)}
+            >
+              显示更多（还有 {children.length - limit} 项）
+            </Button>
+          )}
+        </div>
+      )}
+      {container && expanded && (
+        <div className="pl-5 text-muted-foreground">{Array.isArray(value) ? ']' : '}'}</div>
+      )}
+    </div>
+  );
+};
+
+// 解析失败时显示出错的位置和那一行的内容
+const JsonErrorPreview: React.FC<{ error: JsonSyntaxError; text: string }> = ({ error, text }) => {
+  const excerpt = getSourceExcerpt(text, error.offset);
+
+  return (
+    <Alert variant="destructive">
+      <AlertCircle className="h-4 w-4" />
+      <AlertTitle>JSON 解析失败：第 {error.line} 行，第 {error.column} 列</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>{error.message}</p>
+        <pre className="overflow-x-auto rounded bg-background p-2 font-mono text-xs text-foreground">
+          {excerpt.text}
+          {'\n'}
+          {' '.repeat(excerpt.caret)}^
+        </pre>
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export const JsonPreview: React.FC<PreviewerProps<JsonPreviewContent>> = ({ content }) => {
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [matchLimit, setMatchLimit] = useState(MATCHES_PAGE_SIZE);
+
+  // 大文档上的查询较慢，输入框先更新，结果稍后跟上
+  const deferredQuery = useDeferredValue(query);
+
+  const root = 'value' in content ? content.value : undefined;
+  const filter = useMemo(() => {
+    if (!deferredQuery.trim()) return null;
+    const steps = parseJsonPath(deferredQuery);
+    return steps ? queryJsonPath(root, steps) : { invalid: true as const };
+  }, [root, deferredQuery]);
+
+  if ('error' in content) {
+    return <JsonErrorPreview error={content.error} text={content.text} />;
+  }
+
+  const copy: CopyHandler = (text, label) => {
+    navigator.clipboard.writeText(text).then(
+      () => toast({ title: `已复制${label}` }),
+      () => toast({ variant: "destructive", title: "复制失败" })
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        className="h-8 font-mono"
+        placeholder="按路径筛选，例如 $.items[*].id 或 $..name"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setMatchLimit(MATCHES_PAGE_SIZE);
+        }}
+      />
+
+      <div className="max-h-96 overflow-auto rounded border bg-background p-2 font-mono text-xs">
+        {!filter ? (
+          <JsonNode value={root} path={[]} defaultExpanded onCopy={copy} />
+        ) : 'invalid' in filter ? (
+          <p className="text-destructive">无法识别的路径表达式</p>
+        ) : filter.matches.length === 0 ? (
+          <p className="text-muted-foreground">没有匹配的节点</p>
+        ) : (
+          <div className="space-y-1">
+            <p className="text-muted-foreground">
+              {filter.matches.length}
+              {filter.truncated && '+'} 个匹配
+            </p>
+            {filter.matches.slice(0, matchLimit).map((match) => {
+              const path = formatJsonPath(match.path);
+              return (
+                <div key={path} className="rounded border p-1">
+                  <p className="px-1 text-muted-foreground">{path}</p>
+                  <JsonNode
+                    value={match.value}
+                    path={match.path}
+                    defaultExpanded={filter.matches.length === 1}
+                    onCopy={copy}
+                  />
+                </div>
+              );
+            })}
+            {filter.matches.length > matchLimit && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-6 px-1 text-xs"
+                onClick={() => setMatchLimit(matchLimit + MATCHES_PAGE_SIZE)}
+              >
+                显示更多（还有 {filter.matches.length - matchLimit}
+                {filter.truncated && '+'} 个匹配）
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
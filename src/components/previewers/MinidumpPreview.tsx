@@ -0,0 +1,169 @@
+import React from 'react';
+import { AlertCircle } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { HexPreview } from '@/components/previewers/HexPreview';
+import { formatFileSize } from '@/lib/format';
+import { getBaseName, getExceptionName, MinidumpSummary } from '@/lib/minidump';
+import { PreviewerProps } from '@/lib/previewers';
+import type { UploadedFileInfo } from '@/components/FileUploader';
+
+export interface MinidumpPreviewContent {
+  summary: MinidumpSummary;
+  blob: Blob;
+}
+
+const formatUnixTime = (seconds: number) => (seconds ? new Date(seconds * 1000).toLocaleString() : '—');
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <dt className="text-xs text-muted-foreground">{label}</dt>
+    <dd className="font-mono text-sm break-all">{children}</dd>
+  </div>
+);
+
+// 崩溃原因、系统信息、模块和线程列表；也用于只有服务器端元数据的文件
+export const MinidumpSummaryCard: React.FC<{ summary: MinidumpSummary }> = ({ summary }) => {
+  const { exception, system, modules, threads } = summary;
+
+  return (
+    <div className="space-y-4">
+      {exception ? (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>{getExceptionName(exception)}</AlertTitle>
+          <AlertDescription className="font-mono text-xs space-y-1">
+            <p>
+              {exception.location ?? exception.address}
+              {exception.description && ` • ${exception.description}`}
+            </p>
+            <p>线程 {exception.threadId} • 地址 {exception.address}</p>
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <p className="text-sm text-muted-foreground">转储中没有异常信息（可能是手动生成的转储）</p>
+      )}
+
+      <dl className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        <Field label="生成时间">{formatUnixTime(summary.timestamp)}</Field>
+        {system && (
+          <>
+            <Field label="操作系统">
+              {system.os} {system.osVersion}
+              {system.servicePack && ` ${system.servicePack}`}
+            </Field>
+            <Field label="CPU">
+              {system.architecture} × {system.processorCount}
+              {system.cpuVendor && ` (${system.cpuVendor})`}
+            </Field>
+          </>
+        )}
+        {!summary.trimmed && <Field label="数据流">{summary.streams.length}</Field>}
+      </dl>
+
+      {summary.trimmed && (
+        <p className="text-xs text-muted-foreground">这是精简摘要，只包含出错的模块和线程；完整信息需下载转储文件查看</p>
+      )}
+
+      <div className="flex flex-wrap gap-1">
+        {summary.streams.map((stream, index) => (
+          <Badge key={`${stream.type}-${index}`} variant="outline" title={formatFileSize(stream.size)}>
+            {stream.name}
+          </Badge>
+        ))}
+      </div>
+
+      {modules.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">模块 ({modules.length})</p>
+          <div className="max-h-48 overflow-y-auto rounded border bg-background">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>名称</TableHead>
+                  <TableHead>版本</TableHead>
+                  <TableHead>基址</TableHead>
+                  <TableHead>时间戳</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {modules.map((module) => (
+                  <TableRow key={module.baseAddress}>
+                    <TableCell className="py-1 text-xs" title={module.name}>
+                      {getBaseName(module.name)}
+                    </TableCell>
+                    <TableCell className="py-1 font-mono text-xs">{module.version ?? '—'}</TableCell>
+                    <TableCell className="py-1 font-mono text-xs">{module.baseAddress}</TableCell>
+                    <TableCell className="py-1 text-xs">{formatUnixTime(module.timestamp)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {threads.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-sm font-medium">线程 ({threads.length})</p>
+          <div className="max-h-48 overflow-y-auto rounded border bg-background">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>ID</TableHead>
+                  <TableHead>挂起计数</TableHead>
+                  <TableHead>优先级</TableHead>
+                  <TableHead>栈</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {threads.map((thread) => (
+                  <TableRow key={thread.id} className={thread.id === exception?.threadId ? 'bg-destructive/10' : undefined}>
+                    <TableCell className="py-1 font-mono text-xs">
+                      {thread.id}
+                      {thread.id === exception?.threadId && ' (崩溃)'}
+                    </TableCell>
+                    <TableCell className="py-1 text-xs">{thread.suspendCount}</TableCell>
+                    <TableCell className="py-1 text-xs">{thread.priority}</TableCell>
+                    <TableCell className="py-1 font-mono text-xs">
+                      {thread.stackStart} ({formatFileSize(thread.stackSize)})
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const MinidumpPreview: React.FC<PreviewerProps<MinidumpPreviewContent>> = ({ file, content }) => (
+  <Tabs defaultValue="summary">
+    <TabsList>
+      <TabsTrigger value="summary">摘要</TabsTrigger>
+      <TabsTrigger value="hex">十六进制</TabsTrigger>
+    </TabsList>
+    <TabsContent value="summary">
+      <MinidumpSummaryCard summary={content.summary} />
+    </TabsContent>
+    <TabsContent value="hex">
+      <HexPreview file={file} content={content.blob} />
+    </TabsContent>
+  </Tabs>
+);
+
+// 列表中的一行崩溃原因，例如 "EXCEPTION_ACCESS_VIOLATION • crashy.exe+0x1234"
+export const MinidumpCrashReason: React.FC<{ file: UploadedFileInfo }> = ({ file }) => {
+  const exception = file.metadata?.minidump?.exception;
+  if (!exception) return null;
+
+  return (
+    <p className="text-xs text-destructive truncate">
+      {getExceptionName(exception)} • {exception.location ?? exception.address}
+    </p>
+  );
+};
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { PdfMetadata, PDFDocumentProxy, renderPdfPage } from '@/lib/pdfDocument';
+import { PreviewerProps } from '@/lib/previewers';
+import type { UploadedFileInfo } from '@/components/FileUploader';
+
+export interface PdfPreviewContent {
+  document: PDFDocumentProxy;
+  metadata: PdfMetadata;
+}
+
+const ZOOM_LEVELS = [0.5, 0.75, 1, 1.25, 1.5, 2, 3];
+const DEFAULT_ZOOM_INDEX = 2;
+const THUMBNAIL_WIDTH = 96;
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : undefined);
+
+// pdf.js 取消渲染时会以 RenderingCancelledException 拒绝
+const isCancelled = (error: unknown) => error instanceof Error && error.name === 'RenderingCancelledException';
+
+// 标题、作者、生成工具等文档信息；也用于只有服务器端元数据的文件
+export const PdfMetadataCard: React.FC<{ metadata: PdfMetadata }> = ({ metadata }) => {
+  const fields: [string, string | number | undefined][] = [
+    ['页数', metadata.pageCount],
+    ['标题', metadata.title],
+    ['作者', metadata.author],
+    ['主题', metadata.subject],
+    ['创建工具', metadata.creator],
+    ['生成工具', metadata.producer],
+    ['创建时间', formatDate(metadata.createdAt)],
+    ['修改时间', formatDate(metadata.modifiedAt)],
+    ['PDF 版本', metadata.version],
+  ];
+
+  return (
+    <dl className="grid grid-cols-2 gap-3 md:grid-cols-3">
+      {fields
+        .filter(([, value]) => value !== undefined)
+        .map(([label, value]) => (
+          <div key={label}>
+            <dt className="text-xs text-muted-foreground">{label}</dt>
+            <dd className="text-sm break-all">{value}</dd>
+          </div>
+        ))}
+    </dl>
+  );
+};
+
+// 缩略图进入可视区域后才渲染
+const PdfThumbnail: React.FC<{
+  document: PDFDocumentProxy;
+  pageNumber: number;
+  active: boolean;
+  onSelect: () => void;
+}> = ({ document, pageNumber, active, onSelect }) => {
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [visible, setVisible] = useState(false);
+
+  useEffect(() => {
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) {
+        setVisible(true);
+        observer.disconnect();
+      }
+    });
+    if (buttonRef.current) observer.observe(buttonRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!visible) return;
+    let cancelled = false;
+    let cancelRender: (() => void) | undefined;
+
+    document.getPage(pageNumber).then((page) => {
+      if (cancelled || !canvasRef.current) return;
+      const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+      const render = renderPdfPage(page, canvasRef.current, scale);
+      cancelRender = render.cancel;
+      render.promise.catch(() => {});
+    }).catch(() => {});
+
+    return () => {
+      cancelled = true;
+      cancelRender?.();
+    };
+  }, [document, pageNumber, visible]);
+
+  useEffect(() => {
+    if (active) buttonRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  return (
+    <button
+      ref={buttonRef}
+      className={cn('flex flex-col items-center gap-1 rounded p-1', active ? 'bg-primary/10 ring-2 ring-primary' : 'hover:bg-muted')}
+      onClick={onSelect}
+    >
+      <canvas ref={canvasRef} className="bg-white shadow-sm" style={{ width: THUMBNAIL_WIDTH, minHeight: 40 }} />
+      <span className="text-xs text-muted-foreground">{pageNumber}</span>
+    </button>
+  );
+};
+
+export const PdfPreview: React.FC<PreviewerProps<PdfPreviewContent>> = ({ content }) => {
+  const { document, metadata } = content;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageInput, setPageInput] = useState('1');
+  const [zoomIndex, setZoomIndex] = useState(DEFAULT_ZOOM_INDEX);
+  const [error, setError] = useState<string | null>(null);
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  useEffect(() => {
+    let cancelled = false;
+    let cancelRender: (() => void) | undefined;
+    setError(null);
+
+    document.getPage(pageNumber).then((page) => {
+      if (cancelled || !canvasRef.current || !textLayerRef.current) return;
+      const render = renderPdfPage(page, canvasRef.current, zoom, textLayerRef.current);
+      cancelRender = render.cancel;
+      return render.promise;
+    }).catch((error) => {
+      if (!cancelled && !isCancelled(error)) setError('无法渲染此页');
+    });
+
+    return () => {
+      cancelled = true;
+      cancelRender?.();
+    };
+  }, [document, pageNumber, zoom]);
+
+  const goToPage = (page: number) => {
+    const next = Math.min(document.numPages, Math.max(1, page));
+    setPageNumber(next);
+    setPageInput(String(next));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => goToPage(pageNumber - 1)} disabled={pageNumber <= 1}>
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Input
+          className="h-8 w-14 text-center"
+          value={pageInput}
+          onChange={(e) => setPageInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && goToPage(Number(pageInput) || pageNumber)}
+          onBlur={() => setPageInput(String(pageNumber))}
+        />
+        <span className="text-sm text-muted-foreground">/ {document.numPages} 页</span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goToPage(pageNumber + 1)}
+          disabled={pageNumber >= document.numPages}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setZoomIndex(zoomIndex - 1)} disabled={zoomIndex === 0}>
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <span className="w-12 text-center text-sm">{Math.round(zoom * 100)}%</span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setZoomIndex(zoomIndex + 1)}
+            disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <div className="flex max-h-[32rem] w-32 shrink-0 flex-col items-center gap-2 overflow-y-auto rounded border bg-background p-2">
+          {Array.from({ length: document.numPages }, (_, i) => (
+            <PdfThumbnail
+              key={i}
+              document={document}
+              pageNumber={i + 1}
+              active={i + 1 === pageNumber}
+              onSelect={() => goToPage(i + 1)}
+            />
+          ))}
+        </div>
+
+        <div className="max-h-[32rem] flex-1 overflow-auto rounded border bg-muted p-3">
+          {error && <p className="mb-2 text-sm text-destructive">{error}</p>}
+          {/* 文本层叠在画布上方，透明文字可以被选中和复制 */}
+          <div className="relative mx-auto w-fit bg-white shadow">
+            <canvas ref={canvasRef} className="block" />
+            <div ref={textLayerRef} className="textLayer" />
+          </div>
+        </div>
+      </div>
+
+      <PdfMetadataCard metadata={metadata} />
+    </div>
+  );
+};
+
+// 列表中的一行文档信息，例如 "12 页 • 年度报告"
+export const PdfDocumentInfo: React.FC<{ file: UploadedFileInfo }> = ({ file }) => {
+  const pdf = file.metadata?.pdf;
+  if (!pdf) return null;
+
+  return (
+    <p className="text-xs text-muted-foreground truncate">
+      {pdf.pageCount} 页
+      {pdf.title && ` • ${pdf.title}`}
+      {pdf.author && ` • ${pdf.author}`}
+    </p>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getFileExtension } from '@/lib/fileSignature';
+import { formatFileSize } from '@/lib/format';
+import { PreviewerProps, TextPreviewContent } from '@/lib/previewers';
+import { detectLanguage, getLanguage, highlightLines, LANGUAGES, TokenType } from '@/lib/syntaxHighlight';
+import { decodeText, TEXT_ENCODINGS } from '@/lib/textEncoding';
+
+const tokenClasses: Record<TokenType, string> = {
+  comment: 'italic text-muted-foreground',
+  string: 'text-green-700',
+  keyword: 'text-purple-700',
+  literal: 'text-orange-700',
+  number: 'text-blue-700',
+  property: 'text-sky-700',
+  tag: 'text-red-700',
+  attribute: 'text-amber-700',
+  heading: 'font-semibold text-blue-700',
+  error: 'font-semibold text-red-600',
+  warning: 'font-semibold text-amber-600',
+};
+
+export const TextPreview: React.FC<PreviewerProps<TextPreviewContent>> = ({ file, content }) => {
+  const [encoding, setEncoding] = useState(content.encoding);
+  // null 表示使用根据扩展名和内容检测出的语言
+  const [languageId, setLanguageId] = useState<string | null>(null);
+  const [wrap, setWrap] = useState(false);
+
+  const text = useMemo(
+    () => decodeText(content.bytes, encoding, content.truncated),
+    [content.bytes, content.truncated, encoding]
+  );
+  const detectedLanguage = useMemo(() => detectLanguage(getFileExtension(file.name), text), [file.name, text]);
+  const language = languageId ? getLanguage(languageId) : detectedLanguage;
+  const lines = useMemo(() => highlightLines(text, language), [text, language]);
+  const gutterWidth = String(lines.length).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+        <Select value={language.id} onValueChange={setLanguageId}>
+          <SelectTrigger className="h-8 w-52">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LANGUAGES.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={encoding} onValueChange={setEncoding}>
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TEXT_ENCODINGS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+                {option.value === content.encoding && '（检测）'}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span>{lines.length} 行</span>
+        <label className="ml-auto flex items-center gap-2">
+          <Checkbox checked={wrap} onCheckedChange={(checked) => setWrap(checked === true)} />
+          自动换行
+        </label>
+      </div>
+
+      <div className="max-h-96 overflow-auto rounded border bg-background py-1 font-mono text-xs">
+        {lines.map((tokens, index) => (
+          <div key={index} className="flex hover:bg-muted">
+            {/* 横向滚动时行号保持可见 */}
+            <span
+              className="sticky left-0 shrink-0 select-none bg-background pr-3 text-right text-muted-foreground"
+              style={{ width: `${gutterWidth + 2}ch` }}
+            >
+              {index + 1}
+            </span>
+            <span className={cn('min-w-0 pr-2', wrap ? 'whitespace-pre-wrap break-all' : 'whitespace-pre')}>
+              {tokens.length === 0
+                ? ' '
+                : tokens.map((token, i) => (
+                    <span key={i} className={token.type ? tokenClasses[token.type] : undefined}>
+                      {token.text}
+                    </span>
+                  ))}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {content.truncated && (
+        <p className="text-xs text-muted-foreground">
+          文件共 {formatFileSize(file.size)}，仅显示开头部分
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import { definePreviewer, Previewer, readAsText, readTextPreview } from '@/lib/previewers';
+import { getZipArchiveInfo, isZipArchive } from '@/lib/archiveRules';
+import { ArchivePreview } from '@/components/previewers/ArchivePreview';
+import { CsvPreview } from '@/components/previewers/CsvPreview';
+import { HexPreview } from '@/components/previewers/HexPreview';
+import { JsonPreview, JsonPreviewContent } from '@/components/previewers/JsonPreview';
+import { MinidumpPreview, MinidumpPreviewContent } from '@/components/previewers/MinidumpPreview';
+import { MINIDUMP_MIME, parseMinidump } from '@/lib/minidump';
+import { getPdfMetadata, openPdfDocument } from '@/lib/pdfDocument';
+import { JsonSyntaxError, parseJsonDocument } from '@/lib/jsonTree';
+import { TEXT_EXTENSIONS } from '@/lib/syntaxHighlight';
+import { ImagePreview, MessagePreview } from '@/components/previewers/BasicPreviews';
+import { PdfPreview, PdfPreviewContent } from '@/components/previewers/PdfPreview';
+import { TextPreview } from '@/components/previewers/TextPreview';
+
+const TEXT_TYPES = [
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-yaml',
+  'application/x-sh',
+];
+const CSV_TYPES = ['text/csv', 'text/tab-separated-values'];
+export const TEXT_PREVIEW_BYTES = 256 * 1024;
+// The tree needs the whole document; bigger files fall through to the plain text preview
+export const JSON_PREVIEW_BYTES = 32 * 1024 * 1024;
+
+// Object URLs point at the File on disk instead of copying it into a data URL
+const createObjectUrl = async (file: File) => URL.createObjectURL(file);
+const revokeObjectUrl = (url: string) => URL.revokeObjectURL(url);
+
+export const imagePreviewer = definePreviewer({
+  id: 'image',
+  matches: (file) => file.type.startsWith('image/'),
+  load: createObjectUrl,
+  unload: revokeObjectUrl,
+  component: ImagePreview,
+});
+
+// Rendered in-app with pdf.js; closing the preview frees the document in the worker
+export const pdfPreviewer = definePreviewer({
+  id: 'pdf',
+  matches: (file, { detectedType }) => file.type === 'application/pdf' || detectedType?.mime === 'application/pdf',
+  load: async (file): Promise<PdfPreviewContent> => {
+    const document = await openPdfDocument(file);
+    try {
+      return { document, metadata: await getPdfMetadata(document) };
+    } catch (error) {
+      document.destroy();
+      throw error;
+    }
+  },
+  unload: ({ document }) => {
+    document.destroy();
+  },
+  component: PdfPreview,
+});
+
+// The table streams the file itself, so loading only hands over the Blob
+export const csvPreviewer = definePreviewer({
+  id: 'csv',
+  matches: (file, { extension }) => CSV_TYPES.includes(file.type) || extension === 'csv' || extension === 'tsv',
+  load: async (file): Promise<Blob> => file,
+  component: CsvPreview,
+});
+
+// Syntax errors are part of the preview (with line and column), not a reason to fall back
+export const jsonPreviewer = definePreviewer({
+  id: 'json',
+  matches: (file, { extension }) =>
+    (file.type === 'application/json' || extension === 'json') && file.size <= JSON_PREVIEW_BYTES,
+  load: async (file): Promise<JsonPreviewContent> => {
+    const text = await readAsText(file);
+    try {
+      return { value: parseJsonDocument(text) };
+    } catch (error) {
+      if (error instanceof JsonSyntaxError) return { error, text };
+      throw error;
+    }
+  },
+  component: JsonPreview,
+});
+
+// Text-like by type or extension, or anything without a known binary signature;
+// load() sniffs the content and rejects binary data so the hex view takes over
+export const textPreviewer = definePreviewer({
+  id: 'text',
+  matches: (file, { detectedType, extension }) =>
+    file.type.startsWith('text/') || TEXT_TYPES.includes(file.type) || TEXT_EXTENSIONS.has(extension) ||
+    (!detectedType && file.size > 0),
+  load: (file) => readTextPreview(file, TEXT_PREVIEW_BYTES),
+  component: TextPreview,
+});
+
+// Lists entries from the central directory without extracting anything
+export const archivePreviewer = definePreviewer({
+  id: 'archive',
+  matches: isZipArchive,
+  load: async (file) => {
+    const archive = await getZipArchiveInfo(file);
+    if (!archive) throw new Error('无法读取压缩包目录');
+    return archive;
+  },
+  component: ArchivePreview,
+});
+
+// Crash dumps get a structured summary, with the hex view one tab away
+export const minidumpPreviewer = definePreviewer({
+  id: 'minidump',
+  matches: (file, { detectedType }) => detectedType?.mime === MINIDUMP_MIME,
+  load: async (file): Promise<MinidumpPreviewContent> => ({ summary: await parseMinidump(file), blob: file }),
+  component: MinidumpPreview,
+});
+
+// Any other non-empty file, .dmp included; the viewer reads slices itself
+export const hexPreviewer = definePreviewer({
+  id: 'hex',
+  matches: (file) => file.size > 0,
+  load: async (file): Promise<Blob> => file,
+  component: HexPreview,
+});
+
+// Matches everything, so it has to stay last
+export const fallbackPreviewer = definePreviewer({
+  id: 'fallback',
+  matches: () => true,
+  load: async (file, { detectedType }) =>
+    detectedType ? `${detectedType.label} - 二进制数据文件，无法预览内容` : '无法预览此文件类型',
+  component: MessagePreview,
+});
+
+export const builtinPreviewers: Previewer[] = [
+  imagePreviewer,
+  pdfPreviewer,
+  csvPreviewer,
+  jsonPreviewer,
+  textPreviewer,
+  archivePreviewer,
+  minidumpPreviewer,
+  hexPreviewer,
+  fallbackPreviewer,
+];
@@ -0,0 +1,9 @@
+import { createContext, useContext } from 'react';
+import { Previewer } from '@/lib/previewers';
+
+// Custom previewers registered by the application; they take precedence over the built-in ones
+export const PreviewerContext = createContext<Previewer[]>([]);
+
+export function usePreviewers() {
+  return useContext(PreviewerContext);
+}
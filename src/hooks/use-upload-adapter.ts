@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+import { UploadAdapter } from '@/services/uploadAdapter';
+
+export const UploadAdapterContext = createContext<UploadAdapter | null>(null);
+
+export function useUploadAdapter() {
+  const adapter = useContext(UploadAdapterContext);
+  if (!adapter) {
+    throw new Error('useUploadAdapter must be used within an UploadAdapterProvider');
+  }
+  return adapter;
+}
@@ -0,0 +1,31 @@
+// An allowed-type entry is one of:
+//   ".dmp"             a file extension; ".tar.gz" matches the end of the name
+//   "image/*"          a MIME wildcard
+//   "application/pdf"  an exact MIME type
+
+export type AllowedFileTypeKind = 'extension' | 'mime-wildcard' | 'mime';
+
+const EXTENSION_PATTERN = /^\.[a-z0-9][a-z0-9._+-]*$/;
+const MIME_WILDCARD_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/\*$/;
+const MIME_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+
+export const getAllowedFileTypeKind = (entry: string): AllowedFileTypeKind | null => {
+  if (EXTENSION_PATTERN.test(entry)) return 'extension';
+  if (MIME_WILDCARD_PATTERN.test(entry)) return 'mime-wildcard';
+  if (MIME_PATTERN.test(entry)) return 'mime';
+  return null;
+};
+
+// Turns user input such as "LOG", "*.7z" or " Image/* " into a canonical
+// entry, or null when it is none of the supported kinds
+export const normalizeAllowedFileType = (input: string): string | null => {
+  let entry = input.trim().toLowerCase();
+  if (entry.startsWith('*.')) entry = entry.slice(1);
+  if (!entry.includes('/') && !entry.startsWith('.')) entry = `.${entry}`;
+  return getAllowedFileTypeKind(entry) ? entry : null;
+};
+
+export const splitAllowedFileTypes = (entries: string[]) => ({
+  extensions: entries.filter((entry) => getAllowedFileTypeKind(entry) === 'extension'),
+  mimeTypes: entries.filter((entry) => getAllowedFileTypeKind(entry) !== 'extension'),
+});
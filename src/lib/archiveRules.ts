@@ -0,0 +1,135 @@
+import { RuleSeverity, ValidationContext, ValidationRule } from '@/lib/validationRules';
+import { getFileExtension } from '@/lib/fileSignature';
+import { formatFileSize } from '@/lib/format';
+import { inspectZipArchive, ZipArchiveInfo } from '@/lib/zipArchive';
+
+export interface ArchiveConstraints {
+  maxUncompressedSizeInMB?: number;
+  // Total uncompressed size / archive size
+  maxCompressionRatio?: number;
+  maxEntries?: number;
+  // Extensions (without the dot) that may not appear inside an archive
+  blockedExtensions?: string[];
+  severity?: RuleSeverity;
+}
+
+export const DEFAULT_BLOCKED_ARCHIVE_EXTENSIONS = [
+  'exe', 'dll', 'scr', 'com', 'pif', 'msi', 'bat', 'cmd', 'ps1', 'vbs', 'vbe', 'js', 'jse', 'wsf', 'hta', 'lnk', 'cpl',
+];
+
+// Same caching scheme as image dimensions: one directory read per file, shared
+// by the rules and the preview, with resolved results readable synchronously
+const pendingArchives = new WeakMap<File, Promise<ZipArchiveInfo | null>>();
+const resolvedArchives = new WeakMap<File, ZipArchiveInfo>();
+
+export const getZipArchiveInfo = (file: File): Promise<ZipArchiveInfo | null> => {
+  let pending = pendingArchives.get(file);
+  if (!pending) {
+    pending = inspectZipArchive(file)
+      .then((info) => {
+        resolvedArchives.set(file, info);
+        return info;
+      })
+      .catch(() => null);
+    pendingArchives.set(file, pending);
+  }
+  return pending;
+};
+
+// OOXML documents, jars and apks are ZIP containers too and can carry a bomb
+export const isZipArchive = (file: File, { detectedType, extension }: ValidationContext) =>
+  detectedType ? detectedType.aliases?.includes('application/zip') ?? false : extension === 'zip';
+
+const getBlockedEntries = (info: ZipArchiveInfo, blocked: string[]) =>
+  info.entries.filter((entry) => !entry.isDirectory && blocked.includes(getFileExtension(entry.name)));
+
+// Entries that would be written outside the extraction directory
+const getUnsafePaths = (info: ZipArchiveInfo) =>
+  info.entries.filter(({ name }) => /^([/\\]|[a-z]:)/i.test(name) || name.split(/[/\\]/).includes('..'));
+
+const describeEntries = (names: string[]) =>
+  names.length > 3 ? `${names.slice(0, 3).join(', ')} 等 ${names.length} 个` : names.join(', ');
+
+// A rule that only applies to readable ZIP archives; everything else passes
+const archiveRule = (
+  id: string,
+  severity: RuleSeverity,
+  message: (info: ZipArchiveInfo) => string,
+  passes: (info: ZipArchiveInfo) => boolean
+): ValidationRule => ({
+  id,
+  severity,
+  message: (file) => {
+    const info = resolvedArchives.get(file);
+    return info ? message(info) : '压缩包检查未通过';
+  },
+  check: async (file, context) => {
+    if (!isZipArchive(file, context)) return true;
+    const info = await getZipArchiveInfo(file);
+    return !info || passes(info);
+  },
+});
+
+export const createArchiveRules = ({
+  maxUncompressedSizeInMB = 1024,
+  maxCompressionRatio = 200,
+  maxEntries = 10000,
+  blockedExtensions = DEFAULT_BLOCKED_ARCHIVE_EXTENSIONS,
+  severity = 'error',
+}: ArchiveConstraints = {}): ValidationRule[] => {
+  const maxUncompressedBytes = maxUncompressedSizeInMB * 1024 * 1024;
+  const blocked = blockedExtensions.map((extension) => extension.replace(/^\./, '').toLowerCase());
+
+  return [
+    {
+      id: 'archive-readable',
+      severity: 'warning',
+      message: '无法读取压缩包目录，已跳过压缩包检查',
+      check: async (file, context) => !isZipArchive(file, context) || !!(await getZipArchiveInfo(file)),
+    },
+    archiveRule(
+      'archive-uncompressed-size',
+      severity,
+      (info) =>
+        `压缩包解压后共 ${formatFileSize(info.totalUncompressedSize)}，超过 ${formatFileSize(maxUncompressedBytes)} 限制`,
+      (info) => info.totalUncompressedSize <= maxUncompressedBytes
+    ),
+    archiveRule(
+      'archive-compression-ratio',
+      severity,
+      (info) => `压缩比 ${info.compressionRatio.toFixed(0)}:1 过高，可能是压缩炸弹 (上限 ${maxCompressionRatio}:1)`,
+      (info) => info.compressionRatio <= maxCompressionRatio
+    ),
+    archiveRule(
+      'archive-overlapping-entries',
+      severity,
+      (info) => `压缩包中有 ${info.overlappingEntries} 个条目的数据相互重叠，可能是压缩炸弹`,
+      (info) => info.overlappingEntries === 0
+    ),
+    archiveRule(
+      'archive-entry-count',
+      severity,
+      (info) => `压缩包包含 ${info.entries.length} 个条目，最多允许 ${maxEntries} 个`,
+      (info) => info.entries.length <= maxEntries
+    ),
+    archiveRule(
+      'archive-blocked-extensions',
+      severity,
+      (info) => `压缩包包含不允许的文件: ${describeEntries(getBlockedEntries(info, blocked).map((entry) => entry.name))}`,
+      (info) => getBlockedEntries(info, blocked).length === 0
+    ),
+    archiveRule(
+      'archive-unsafe-paths',
+      severity,
+      (info) => `压缩包包含指向目录之外的路径: ${describeEntries(getUnsafePaths(info).map((entry) => entry.name))}`,
+      (info) => getUnsafePaths(info).length === 0
+    ),
+    archiveRule(
+      'archive-nested',
+      'warning',
+      (info) =>
+        `压缩包内含嵌套压缩包 ${describeEntries(info.nestedArchives.map((entry) => entry.name))}，其内容未被检查`,
+      (info) => info.nestedArchives.length === 0
+    ),
+  ];
+};
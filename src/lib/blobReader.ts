@@ -0,0 +1,106 @@
+import { throwIfAborted } from '@/lib/abort';
+
+// Random access to a large Blob without reading it whole: fixed-size chunks
+// are read on demand and the most recently used ones are kept in memory
+
+export interface BlobReader {
+  size: number;
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+export interface BlobReaderOptions {
+  chunkSize?: number;
+  maxChunks?: number;
+}
+
+export const createBlobReader = (
+  blob: Blob,
+  { chunkSize = 64 * 1024, maxChunks = 64 }: BlobReaderOptions = {}
+): BlobReader => {
+  // Map iteration order doubles as LRU order: re-inserting moves a chunk to the end
+  const chunks = new Map<number, Promise<Uint8Array>>();
+
+  const getChunk = (index: number) => {
+    let chunk = chunks.get(index);
+    if (chunk) {
+      chunks.delete(index);
+    } else {
+      const start = index * chunkSize;
+      chunk = blob
+        .slice(start, start + chunkSize)
+        .arrayBuffer()
+        .then((buffer) => new Uint8Array(buffer));
+      // A failed read should be retried next time rather than cached
+      chunk.catch(() => chunks.delete(index));
+    }
+    chunks.set(index, chunk);
+    if (chunks.size > maxChunks) {
+      chunks.delete(chunks.keys().next().value as number);
+    }
+    return chunk;
+  };
+
+  return {
+    size: blob.size,
+    read: async (offset, length) => {
+      const start = Math.max(0, offset);
+      const end = Math.min(blob.size, offset + length);
+      if (end <= start) return new Uint8Array(0);
+
+      const first = Math.floor(start / chunkSize);
+      const last = Math.floor((end - 1) / chunkSize);
+      const parts = await Promise.all(
+        Array.from({ length: last - first + 1 }, (_, i) => getChunk(first + i))
+      );
+
+      const result = new Uint8Array(end - start);
+      parts.forEach((part, i) => {
+        const chunkStart = (first + i) * chunkSize;
+        const from = Math.max(start, chunkStart) - chunkStart;
+        const to = Math.min(end, chunkStart + part.length) - chunkStart;
+        result.set(part.subarray(from, to), chunkStart + from - start);
+      });
+      return result;
+    },
+  };
+};
+
+export interface SearchOptions {
+  from?: number;
+  // Exclusive upper bound for the start of a match
+  to?: number;
+  signal?: AbortSignal;
+  onProgress?: (searched: number) => void;
+}
+
+const SEARCH_CHUNK_SIZE = 1024 * 1024;
+
+// Returns the offset of the first occurrence of pattern at or after `from`, or -1
+export const searchBlob = async (
+  blob: Blob,
+  pattern: Uint8Array,
+  { from = 0, to = blob.size, signal, onProgress }: SearchOptions = {}
+): Promise<number> => {
+  if (pattern.length === 0) return -1;
+
+  for (let position = Math.max(0, from); position < to; position += SEARCH_CHUNK_SIZE) {
+    throwIfAborted(signal);
+    // Overlap by pattern.length - 1 so matches across chunk boundaries are found
+    const windowEnd = Math.min(blob.size, position + SEARCH_CHUNK_SIZE + pattern.length - 1);
+    const bytes = new Uint8Array(await blob.slice(position, windowEnd).arrayBuffer());
+    const lastStart = Math.min(bytes.length - pattern.length, to - 1 - position);
+
+    for (let i = bytes.indexOf(pattern[0]); i !== -1 && i <= lastStart; i = bytes.indexOf(pattern[0], i + 1)) {
+      let matched = true;
+      for (let j = 1; j < pattern.length; j++) {
+        if (bytes[i + j] !== pattern[j]) {
+          matched = false;
+          break;
+        }
+      }
+      if (matched) return position + i;
+    }
+    onProgress?.(Math.min(to, position + SEARCH_CHUNK_SIZE));
+  }
+  return -1;
+};
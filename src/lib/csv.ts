@@ -0,0 +1,159 @@
+import { throwIfAborted } from '@/lib/abort';
+
+// Incremental CSV/TSV parsing (RFC 4180 quoting) plus dialect detection, so
+// large exports can be read chunk by chunk without holding the raw text
+
+export interface CsvDialect {
+  delimiter: string;
+  quote: string;
+}
+
+export interface CsvParser {
+  // Returns the rows completed by this chunk; a row split across chunks is
+  // returned by the call that completes it
+  push: (text: string) => string[][];
+  // Ends the input and returns the last row, if any
+  flush: () => string[][];
+}
+
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+const QUOTE_CANDIDATES = ['"', "'"];
+const SAMPLE_ROWS = 20;
+
+export const createCsvParser = ({ delimiter, quote }: CsvDialect): CsvParser => {
+  let rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote inside a quoted field: either the first half of "" or the closing quote
+  let quotePending = false;
+  // The previous chunk ended with \r, so a leading \n belongs to the same line break
+  let skipLineFeed = false;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    // Blank lines are not rows
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+  };
+  const drain = () => {
+    const completed = rows;
+    rows = [];
+    return completed;
+  };
+
+  return {
+    push: (text) => {
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (skipLineFeed) {
+          skipLineFeed = false;
+          if (char === '\n') continue;
+        }
+
+        if (inQuotes) {
+          if (quotePending) {
+            quotePending = false;
+            if (char === quote) {
+              field += quote;
+              continue;
+            }
+            inQuotes = false;
+          } else {
+            if (char === quote) quotePending = true;
+            else field += char;
+            continue;
+          }
+        }
+
+        if (char === quote && field === '') {
+          inQuotes = true;
+        } else if (char === delimiter) {
+          endField();
+        } else if (char === '\n' || char === '\r') {
+          endRow();
+          skipLineFeed = char === '\r';
+        } else {
+          field += char;
+        }
+      }
+      return drain();
+    },
+    flush: () => {
+      if (field !== '' || row.length > 0) endRow();
+      inQuotes = false;
+      quotePending = false;
+      return drain();
+    },
+  };
+};
+
+const mostCommon = (values: number[]) => {
+  const counts = new Map<number, number>();
+  values.forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [0, 0];
+};
+
+// The delimiter that splits the sample rows into the same number (> 1) of
+// fields most consistently wins; ties go to the one producing more columns
+export const detectCsvDialect = (sample: string, preferredDelimiter = ','): CsvDialect => {
+  const quote = QUOTE_CANDIDATES.reduce((best, candidate) => {
+    // Quotes that open a field: at the start of a line or right after a delimiter
+    const opening = new RegExp(`(^|[\\n,\\t;|])${candidate}`, 'g');
+    const count = sample.match(opening)?.length ?? 0;
+    return count > best.count ? { quote: candidate, count } : best;
+  }, { quote: '"', count: 0 }).quote;
+
+  let best = { delimiter: preferredDelimiter, score: 0 };
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const parser = createCsvParser({ delimiter, quote });
+    // The last line of the sample may be cut off, so only complete rows count
+    let rows = parser.push(sample).slice(0, SAMPLE_ROWS);
+    if (rows.length === 0) rows = parser.flush();
+    const [fields, occurrences] = mostCommon(rows.map((row) => row.length));
+    if (fields < 2) continue;
+
+    const score = (occurrences / rows.length) * 1000 + fields + (delimiter === preferredDelimiter ? 0.5 : 0);
+    if (score > best.score) best = { delimiter, score };
+  }
+  return { delimiter: best.delimiter, quote };
+};
+
+const NUMBER = /^[-+]?(\d+([.,]\d+)*|\d*\.\d+)([eE][-+]?\d+)?%?$/;
+
+export const isNumericCell = (value: string) => NUMBER.test(value.trim());
+
+// Treats the first row as a header unless it looks like data (contains numbers)
+export const detectHeaderRow = (rows: string[][]) =>
+  rows.length > 1 && rows[0].every((cell) => cell.trim() !== '' && !isNumericCell(cell));
+
+export interface CsvStreamOptions {
+  signal?: AbortSignal;
+  onRows: (rows: string[][]) => void;
+  onProgress?: (bytesRead: number) => void;
+}
+
+const READ_CHUNK_SIZE = 256 * 1024;
+
+// Decodes and parses the Blob slice by slice; every slice is awaited, so the
+// tab stays responsive even for exports with hundreds of thousands of rows
+export const streamCsv = async (
+  blob: Blob,
+  dialect: CsvDialect,
+  { signal, onRows, onProgress }: CsvStreamOptions
+) => {
+  const decoder = new TextDecoder();
+  const parser = createCsvParser(dialect);
+
+  for (let offset = 0; offset < blob.size; offset += READ_CHUNK_SIZE) {
+    throwIfAborted(signal);
+    const bytes = new Uint8Array(await blob.slice(offset, offset + READ_CHUNK_SIZE).arrayBuffer());
+    onRows(parser.push(decoder.decode(bytes, { stream: true })));
+    onProgress?.(Math.min(blob.size, offset + READ_CHUNK_SIZE));
+  }
+  onRows([...parser.push(decoder.decode()), ...parser.flush()]);
+};
@@ -0,0 +1,51 @@
+import type { HashWorkerMessage, HashWorkerRequest } from '@/workers/hashWorker';
+import { createAbortError } from '@/lib/abort';
+
+export interface HashFileOptions {
+  onProgress?: (loaded: number) => void;
+  signal?: AbortSignal;
+}
+
+// Computes the SHA-256 hex digest of a file in a dedicated worker, so hashing
+// large files never blocks the main thread
+export const hashFile = (file: Blob, { onProgress, signal }: HashFileOptions = {}): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/hashWorker.ts', import.meta.url), { type: 'module' });
+    const onAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<HashWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.loaded);
+        return;
+      }
+
+      cleanup();
+      if (message.type === 'done') {
+        resolve(message.hash);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Hash worker failed'));
+    };
+
+    const request: HashWorkerRequest = { file };
+    worker.postMessage(request);
+  });
+};
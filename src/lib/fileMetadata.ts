@@ -0,0 +1,23 @@
+import type { UploadedFileMetadata } from '@/components/FileUploader';
+import { detectFileType } from '@/lib/fileSignature';
+import { MINIDUMP_MIME, parseMinidump } from '@/lib/minidump';
+import { readPdfMetadata } from '@/lib/pdfDocument';
+
+// pdf.js needs the whole document in memory, so larger PDFs are uploaded without metadata
+const PDF_METADATA_MAX_BYTES = 20 * 1024 * 1024;
+
+// Reads structured metadata from formats we understand; resolves to undefined
+// for everything else and rejects when a recognised file cannot be parsed
+export const extractFileMetadata = async (
+  file: File,
+  signal?: AbortSignal
+): Promise<UploadedFileMetadata | undefined> => {
+  const detectedType = await detectFileType(file).catch(() => null);
+  if (detectedType?.mime === MINIDUMP_MIME) {
+    return { minidump: await parseMinidump(file) };
+  }
+  if (detectedType?.mime === 'application/pdf' && file.size <= PDF_METADATA_MAX_BYTES) {
+    return { pdf: await readPdfMetadata(file, signal) };
+  }
+  return undefined;
+};
@@ -0,0 +1,17 @@
+const splitFileName = (name: string): [string, string] => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? [name.slice(0, dotIndex), name.slice(dotIndex)] : [name, ''];
+};
+
+// "report.dmp" → "report (1).dmp", "report (1).dmp" → "report (2).dmp", …
+export const createUniqueFileName = (name: string, takenNames: Iterable<string>) => {
+  const taken = new Set(takenNames);
+  if (!taken.has(name)) return name;
+
+  const [base, extension] = splitFileName(name);
+  const stem = base.replace(/ \(\d+\)$/, '');
+  for (let counter = 1; ; counter++) {
+    const candidate = `${stem} (${counter})${extension}`;
+    if (!taken.has(candidate)) return candidate;
+  }
+};
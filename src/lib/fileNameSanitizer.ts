@@ -0,0 +1,130 @@
+import { RuleSeverity, ValidationRule } from '@/lib/validationRules';
+
+// Bidirectional formatting characters; U+202E (RIGHT-TO-LEFT OVERRIDE) turns
+// "invoice\u202Efdp.exe" into something that displays as "invoiceexe.pdf"
+const BIDI_CONTROLS = /[\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+const ZERO_WIDTH = /[\u00AD\u200B-\u200D\u2060\uFEFF]/g;
+// General category Cc: U+0000-U+001F and U+007F-U+009F
+const CONTROL_CHARACTERS = /\p{Cc}/gu;
+// Path separators and characters Windows does not allow in names
+const RESERVED_CHARACTERS = /[/\\<>:"|?*]/g;
+// Characters that render like "." and can fake an extension
+const DOT_LOOKALIKES = /[\u2024\u2027\uFE52\uFF0E]/;
+const WINDOWS_RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9]|lpt[0-9])$/i;
+
+const CONFUSABLE_SCRIPTS = /[\p{Script=Cyrillic}\p{Script=Greek}\p{Script=Armenian}]/u;
+const LATIN = /\p{Script=Latin}/u;
+
+export const DEFAULT_MAX_FILE_NAME_BYTES = 255;
+
+export interface SanitizedFileName {
+  name: string;
+  originalName: string;
+  // Human-readable list of what was changed, empty when name === originalName
+  changes: string[];
+}
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+const truncateToBytes = (text: string, maxBytes: number) => {
+  let result = '';
+  // Iterate by code point so surrogate pairs are never split
+  for (const char of text) {
+    if (utf8Length(result + char) > maxBytes) break;
+    result += char;
+  }
+  return result;
+};
+
+const splitExtension = (name: string): [string, string] => {
+  const dotIndex = name.lastIndexOf('.');
+  return dotIndex > 0 ? [name.slice(0, dotIndex), name.slice(dotIndex)] : [name, ''];
+};
+
+export const sanitizeFileName = (
+  originalName: string,
+  maxBytes = DEFAULT_MAX_FILE_NAME_BYTES
+): SanitizedFileName => {
+  const changes: string[] = [];
+  let name = originalName.normalize('NFC');
+  if (name !== originalName) changes.push('Unicode 规范化 (NFC)');
+
+  const strip = (pattern: RegExp, replacement: string, description: string) => {
+    const next = name.replace(pattern, replacement);
+    if (next !== name) changes.push(description);
+    name = next;
+  };
+  strip(BIDI_CONTROLS, '', '移除双向文本控制字符');
+  strip(ZERO_WIDTH, '', '移除零宽字符');
+  strip(CONTROL_CHARACTERS, '', '移除控制字符');
+  strip(RESERVED_CHARACTERS, '_', '替换路径分隔符和保留字符');
+  // Windows drops trailing dots and spaces, which would change the name
+  strip(/[\s.]+$/, '', '去除末尾的空格和点');
+
+  if (!name) {
+    name = 'unnamed';
+    changes.push('文件名为空，使用 unnamed');
+  }
+
+  // "CON.txt" and "nul.tar.gz" are reserved too, only the part before the first dot counts
+  const stem = name.split('.')[0];
+  if (WINDOWS_RESERVED_NAMES.test(stem)) {
+    name = `_${name}`;
+    changes.push(`${stem} 是 Windows 保留名称，已添加前缀`);
+  }
+
+  if (utf8Length(name) > maxBytes) {
+    const [base, extension] = splitExtension(name);
+    const keptExtension = utf8Length(extension) < maxBytes / 2 ? extension : '';
+    name = truncateToBytes(base, maxBytes - utf8Length(keptExtension)) + keptExtension;
+    changes.push(`超过 ${maxBytes} 字节，已截断`);
+  }
+
+  return { name, originalName, changes };
+};
+
+// Reasons a name looks crafted to disguise what the file really is
+export const detectFileNameSpoofing = (name: string): string[] => {
+  const findings: string[] = [];
+  const bidi = name.match(BIDI_CONTROLS);
+  if (bidi) {
+    const codes = [...new Set(bidi)].map((char) => `U+${char.charCodeAt(0).toString(16).toUpperCase()}`);
+    findings.push(`文件名包含双向文本控制字符 (${codes.join(', ')})，显示的扩展名可能与实际不同`);
+  }
+
+  if (name.match(ZERO_WIDTH)) {
+    findings.push('文件名包含不可见的零宽字符');
+  }
+
+  if (DOT_LOOKALIKES.test(name)) {
+    findings.push('文件名包含形似 "." 的字符，可能伪造扩展名');
+  }
+
+  // Mixing Latin with Cyrillic/Greek letters in one name is the classic
+  // homoglyph trick ("p\u0430ypal" spelled with a Cyrillic a)
+  if (LATIN.test(name) && CONFUSABLE_SCRIPTS.test(name)) {
+    findings.push('文件名混用了拉丁字母与西里尔/希腊字母，可能是仿冒字符');
+  }
+
+  const [, extension] = splitExtension(name.normalize('NFC'));
+  if (/[^\x20-\x7E]/.test(extension)) {
+    findings.push(`扩展名 "${revealHiddenCharacters(extension)}" 包含非 ASCII 字符`);
+  }
+
+  return findings;
+};
+
+// Makes invisible and direction-changing characters visible, so a name can be
+// shown to the user without being able to spoof the UI itself
+export const revealHiddenCharacters = (name: string) =>
+  name.replace(
+    new RegExp(`${BIDI_CONTROLS.source}|${ZERO_WIDTH.source}|${CONTROL_CHARACTERS.source}`, 'gu'),
+    (char) => `<U+${char.charCodeAt(0).toString(16).toUpperCase().padStart(4, '0')}>`
+  );
+
+export const fileNameSpoofingRule = (severity: RuleSeverity = 'warning'): ValidationRule => ({
+  id: 'file-name-spoofing',
+  severity,
+  message: (file) => detectFileNameSpoofing(file.name).join('; '),
+  check: (file) => detectFileNameSpoofing(file.name).length === 0,
+});
@@ -0,0 +1,308 @@
+// Identifies a file's real format from its leading bytes ("magic numbers")
+// instead of trusting the browser-supplied MIME type, which comes from the
+// OS extension mapping and is often empty or wrong.
+
+export interface DetectedFileType {
+  mime: string;
+  label: string;
+  extensions: string[];
+  // Declared MIME types that are legitimate for this container, e.g. a .docx
+  // is a ZIP on the wire but is declared as an OOXML type
+  aliases?: string[];
+  executable?: boolean;
+}
+
+interface SignaturePattern {
+  offset: number;
+  bytes: number[];
+}
+
+interface FileSignature extends DetectedFileType {
+  patterns: SignaturePattern[];
+  // Refines a match by looking further into the header (e.g. ZIP → OOXML)
+  refine?: (header: Uint8Array) => DetectedFileType | null;
+}
+
+// Number of leading bytes read from every file
+export const SIGNATURE_READ_LENGTH = 4096;
+
+const ascii = (text: string) => Array.from(text, (char) => char.charCodeAt(0));
+const at = (offset: number, bytes: number[] | string): SignaturePattern => ({
+  offset,
+  bytes: typeof bytes === 'string' ? ascii(bytes) : bytes,
+});
+
+const matchesPattern = (header: Uint8Array, { offset, bytes }: SignaturePattern) =>
+  header.length >= offset + bytes.length && bytes.every((byte, index) => header[offset + index] === byte);
+
+const containsAscii = (header: Uint8Array, text: string) => {
+  const needle = ascii(text);
+  for (let start = 0; start <= header.length - needle.length; start++) {
+    if (needle.every((byte, index) => header[start + index] === byte)) return true;
+  }
+  return false;
+};
+
+const ZIP_ALIASES = [
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/java-archive',
+  'application/epub+zip',
+  'application/vnd.android.package-archive',
+];
+
+const OOXML_TYPES: { folder: string; type: DetectedFileType }[] = [
+  {
+    folder: 'word/',
+    type: {
+      mime: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      label: 'Word 文档',
+      extensions: ['docx'],
+      aliases: ZIP_ALIASES,
+    },
+  },
+  {
+    folder: 'xl/',
+    type: {
+      mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      label: 'Excel 工作簿',
+      extensions: ['xlsx'],
+      aliases: ZIP_ALIASES,
+    },
+  },
+  {
+    folder: 'ppt/',
+    type: {
+      mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      label: 'PowerPoint 演示文稿',
+      extensions: ['pptx'],
+      aliases: ZIP_ALIASES,
+    },
+  },
+];
+
+const RIFF_FORMS: { form: string; type: DetectedFileType }[] = [
+  { form: 'WEBP', type: { mime: 'image/webp', label: 'WebP 图片', extensions: ['webp'] } },
+  {
+    form: 'WAVE',
+    type: { mime: 'audio/wav', label: 'WAV 音频', extensions: ['wav'], aliases: ['audio/x-wav', 'audio/wave'] },
+  },
+  { form: 'AVI ', type: { mime: 'video/x-msvideo', label: 'AVI 视频', extensions: ['avi'] } },
+];
+
+const PE_TYPE: DetectedFileType = {
+  mime: 'application/vnd.microsoft.portable-executable',
+  label: 'Windows PE 可执行文件',
+  extensions: ['exe', 'dll', 'sys', 'scr', 'ocx', 'cpl', 'efi'],
+  aliases: ['application/x-msdownload', 'application/x-msdos-program', 'application/x-dosexec'],
+  executable: true,
+};
+
+const SIGNATURES: FileSignature[] = [
+  {
+    mime: 'image/png',
+    label: 'PNG 图片',
+    extensions: ['png'],
+    patterns: [at(0, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  },
+  {
+    mime: 'image/jpeg',
+    label: 'JPEG 图片',
+    extensions: ['jpg', 'jpeg', 'jfif'],
+    aliases: ['image/jpg', 'image/pjpeg'],
+    patterns: [at(0, [0xff, 0xd8, 0xff])],
+  },
+  {
+    mime: 'image/gif',
+    label: 'GIF 图片',
+    extensions: ['gif'],
+    patterns: [at(0, 'GIF87a'), at(0, 'GIF89a')],
+  },
+  {
+    mime: 'application/x-riff',
+    label: 'RIFF 容器',
+    extensions: ['riff'],
+    patterns: [at(0, 'RIFF')],
+    // RIFF is a container; the form type at offset 8 says what is inside
+    refine: (header) => RIFF_FORMS.find(({ form }) => matchesPattern(header, at(8, form)))?.type ?? null,
+  },
+  {
+    mime: 'image/bmp',
+    label: 'BMP 图片',
+    extensions: ['bmp'],
+    patterns: [at(0, 'BM')],
+  },
+  {
+    mime: 'image/tiff',
+    label: 'TIFF 图片',
+    extensions: ['tif', 'tiff'],
+    patterns: [at(0, [0x49, 0x49, 0x2a, 0x00]), at(0, [0x4d, 0x4d, 0x00, 0x2a])],
+  },
+  {
+    mime: 'image/x-icon',
+    label: 'ICO 图标',
+    extensions: ['ico'],
+    aliases: ['image/vnd.microsoft.icon'],
+    patterns: [at(0, [0x00, 0x00, 0x01, 0x00])],
+  },
+  {
+    mime: 'application/pdf',
+    label: 'PDF 文档',
+    extensions: ['pdf'],
+    patterns: [at(0, '%PDF-')],
+  },
+  {
+    mime: 'application/zip',
+    label: 'ZIP 压缩包',
+    extensions: ['zip', 'jar', 'apk', 'epub', 'docx', 'xlsx', 'pptx'],
+    aliases: ZIP_ALIASES,
+    patterns: [at(0, [0x50, 0x4b, 0x03, 0x04]), at(0, [0x50, 0x4b, 0x05, 0x06])],
+    refine: (header) => OOXML_TYPES.find(({ folder }) => containsAscii(header, folder))?.type ?? null,
+  },
+  {
+    mime: 'application/gzip',
+    label: 'GZIP 压缩包',
+    extensions: ['gz', 'tgz'],
+    aliases: ['application/x-gzip'],
+    patterns: [at(0, [0x1f, 0x8b])],
+  },
+  {
+    mime: 'application/x-bzip2',
+    label: 'BZIP2 压缩包',
+    extensions: ['bz2'],
+    patterns: [at(0, 'BZh')],
+  },
+  {
+    mime: 'application/x-xz',
+    label: 'XZ 压缩包',
+    extensions: ['xz'],
+    patterns: [at(0, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])],
+  },
+  {
+    mime: 'application/x-7z-compressed',
+    label: '7-Zip 压缩包',
+    extensions: ['7z'],
+    patterns: [at(0, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])],
+  },
+  {
+    mime: 'application/vnd.rar',
+    label: 'RAR 压缩包',
+    extensions: ['rar'],
+    aliases: ['application/x-rar-compressed'],
+    patterns: [at(0, 'Rar!\x1a\x07')],
+  },
+  {
+    mime: 'application/x-dmp',
+    label: 'Windows Minidump',
+    extensions: ['dmp', 'mdmp'],
+    patterns: [at(0, 'MDMP')],
+  },
+  {
+    mime: 'application/x-ole-storage',
+    label: 'OLE 复合文档 (doc/xls/ppt/msi)',
+    extensions: ['doc', 'xls', 'ppt', 'msi', 'msg'],
+    aliases: ['application/msword', 'application/vnd.ms-excel', 'application/vnd.ms-powerpoint', 'application/x-msi'],
+    patterns: [at(0, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])],
+  },
+  {
+    mime: 'application/x-sqlite3',
+    label: 'SQLite 数据库',
+    extensions: ['sqlite', 'sqlite3'],
+    aliases: ['application/vnd.sqlite3'],
+    patterns: [at(0, 'SQLite format 3\x00')],
+  },
+  {
+    mime: 'video/mp4',
+    label: 'MP4 视频',
+    extensions: ['mp4', 'm4v', 'm4a', 'mov'],
+    aliases: ['video/quicktime', 'audio/mp4'],
+    patterns: [at(4, 'ftyp')],
+  },
+  {
+    mime: 'audio/ogg',
+    label: 'Ogg 媒体',
+    extensions: ['ogg', 'oga', 'ogv', 'opus'],
+    aliases: ['video/ogg'],
+    patterns: [at(0, 'OggS')],
+  },
+  {
+    mime: 'application/wasm',
+    label: 'WebAssembly 模块',
+    extensions: ['wasm'],
+    patterns: [at(0, [0x00, 0x61, 0x73, 0x6d])],
+    executable: true,
+  },
+  {
+    mime: 'application/x-elf',
+    label: 'ELF 可执行文件',
+    extensions: ['elf', 'so'],
+    aliases: ['application/x-executable', 'application/x-sharedlib'],
+    patterns: [at(0, [0x7f, 0x45, 0x4c, 0x46])],
+    executable: true,
+  },
+  {
+    mime: 'application/x-mach-binary',
+    label: 'Mach-O 可执行文件',
+    extensions: ['dylib', 'bundle'],
+    patterns: [
+      at(0, [0xfe, 0xed, 0xfa, 0xce]),
+      at(0, [0xfe, 0xed, 0xfa, 0xcf]),
+      at(0, [0xce, 0xfa, 0xed, 0xfe]),
+      at(0, [0xcf, 0xfa, 0xed, 0xfe]),
+    ],
+    executable: true,
+  },
+  {
+    mime: 'application/x-msdownload',
+    label: 'DOS 可执行文件',
+    extensions: ['exe', 'com'],
+    patterns: [at(0, 'MZ')],
+    executable: true,
+    // A PE image has "PE\0\0" at the offset stored in e_lfanew (0x3C)
+    refine: (header) => {
+      if (header.length < 0x40) return null;
+      const peOffset = new DataView(header.buffer, header.byteOffset).getUint32(0x3c, true);
+      return matchesPattern(header, at(peOffset, [0x50, 0x45, 0x00, 0x00])) ? PE_TYPE : null;
+    },
+  },
+];
+
+export const detectFileTypeFromBytes = (header: Uint8Array): DetectedFileType | null => {
+  for (const { patterns, refine, ...type } of SIGNATURES) {
+    if (!patterns.some((pattern) => matchesPattern(header, pattern))) continue;
+    return refine?.(header) ?? type;
+  }
+  return null;
+};
+
+export const detectFileType = async (file: Blob): Promise<DetectedFileType | null> => {
+  const buffer = await file.slice(0, SIGNATURE_READ_LENGTH).arrayBuffer();
+  return detectFileTypeFromBytes(new Uint8Array(buffer));
+};
+
+export const getFileExtension = (fileName: string) => {
+  const dotIndex = fileName.lastIndexOf('.');
+  return dotIndex > 0 ? fileName.slice(dotIndex + 1).toLowerCase() : '';
+};
+
+// Extensions that some signature claims, so a mismatch on them is meaningful
+const KNOWN_EXTENSIONS = new Set(
+  [
+    ...SIGNATURES,
+    PE_TYPE,
+    ...OOXML_TYPES.map(({ type }) => type),
+    ...RIFF_FORMS.map(({ type }) => type),
+  ].flatMap((type) => type.extensions)
+);
+
+export const isKnownExtension = (extension: string) => KNOWN_EXTENSIONS.has(extension);
+
+// Whether a declared MIME type is plausible for the detected content
+export const isDeclaredTypeConsistent = (declaredType: string, detected: DetectedFileType) =>
+  !declaredType ||
+  declaredType === 'application/octet-stream' ||
+  declaredType === detected.mime ||
+  !!detected.aliases?.includes(declaredType);
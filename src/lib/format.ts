@@ -0,0 +1,11 @@
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+export const formatDuration = (seconds: number) => {
+  if (seconds < 60) return `${Math.ceil(seconds)} 秒`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes} 分 ${Math.ceil(seconds % 60)} 秒`;
+};
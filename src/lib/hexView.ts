@@ -0,0 +1,75 @@
+// Formatting and parsing helpers for the hex viewer
+
+export type HexSearchMode = 'hex' | 'text';
+
+export interface InterpretedValue {
+  label: string;
+  value: string;
+}
+
+// Seconds between 1601-01-01 (FILETIME epoch) and 1970-01-01
+const FILETIME_EPOCH_OFFSET_SECONDS = 11644473600n;
+
+export const formatOffset = (offset: number, size: number) =>
+  offset.toString(16).toUpperCase().padStart(Math.max(8, size.toString(16).length), '0');
+
+export const formatByte = (byte: number) => byte.toString(16).toUpperCase().padStart(2, '0');
+
+export const toPrintableAscii = (byte: number) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.');
+
+// "0x1F40", "1f40h" and "$1F40" are hex, anything else must be a decimal number
+export const parseOffset = (input: string): number | null => {
+  const text = input.trim();
+  const hex = text.match(/^(?:0x|\$)([0-9a-f]+)$/i) ?? text.match(/^([0-9a-f]+)h$/i);
+  if (hex) return parseInt(hex[1], 16);
+  return /^\d+$/.test(text) ? Number(text) : null;
+};
+
+// Hex patterns may be written with or without separators: "4D 44 4D 50", "4d444d50"
+export const parseSearchPattern = (query: string, mode: HexSearchMode): Uint8Array | null => {
+  if (mode === 'text') {
+    return query ? new TextEncoder().encode(query) : null;
+  }
+
+  const digits = query.replace(/0x/gi, '').replace(/[\s,:-]/g, '');
+  if (!digits || digits.length % 2 !== 0 || !/^[0-9a-f]+$/i.test(digits)) return null;
+  return Uint8Array.from(digits.match(/../g) ?? [], (pair) => parseInt(pair, 16));
+};
+
+const formatTimestamp = (milliseconds: number) => {
+  const date = new Date(milliseconds);
+  return Number.isNaN(date.getTime()) ? '无效时间' : date.toISOString();
+};
+
+const formatFloat = (value: number) => (Number.isInteger(value) ? value.toFixed(1) : value.toPrecision(8));
+
+// Reads the bytes at the selected offset as the common fixed-width types;
+// types that need more bytes than are available are left out
+export const interpretBytes = (bytes: Uint8Array): InterpretedValue[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const values: InterpretedValue[] = [];
+  const add = (size: number, label: string, read: () => string) => {
+    if (bytes.length >= size) values.push({ label, value: read() });
+  };
+
+  add(1, 'u8', () => String(view.getUint8(0)));
+  add(1, 'i8', () => String(view.getInt8(0)));
+  add(2, 'u16 LE', () => String(view.getUint16(0, true)));
+  add(2, 'u16 BE', () => String(view.getUint16(0, false)));
+  add(4, 'u32 LE', () => String(view.getUint32(0, true)));
+  add(4, 'u32 BE', () => String(view.getUint32(0, false)));
+  add(4, 'i32 LE', () => String(view.getInt32(0, true)));
+  add(8, 'u64 LE', () => view.getBigUint64(0, true).toString());
+  add(8, 'u64 BE', () => view.getBigUint64(0, false).toString());
+  add(4, 'f32 LE', () => formatFloat(view.getFloat32(0, true)));
+  add(4, 'f32 BE', () => formatFloat(view.getFloat32(0, false)));
+  add(8, 'f64 LE', () => formatFloat(view.getFloat64(0, true)));
+  add(8, 'f64 BE', () => formatFloat(view.getFloat64(0, false)));
+  add(4, 'Unix 时间 (u32 LE)', () => formatTimestamp(view.getUint32(0, true) * 1000));
+  add(8, 'FILETIME (u64 LE)', () => {
+    const seconds = view.getBigUint64(0, true) / 10000000n - FILETIME_EPOCH_OFFSET_SECONDS;
+    return formatTimestamp(Number(seconds) * 1000);
+  });
+
+  return values;
+};
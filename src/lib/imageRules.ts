@@ -0,0 +1,139 @@
+import { RuleSeverity, ValidationContext, ValidationRule } from '@/lib/validationRules';
+
+export interface ImageConstraints {
+  minWidth?: number;
+  minHeight?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  // Width / height, either as a number (1.5) or "16:9"
+  aspectRatios?: (number | string)[];
+  // Allowed relative deviation from an aspect ratio, 0.01 = 1%
+  aspectRatioTolerance?: number;
+  maxMegapixels?: number;
+  severity?: RuleSeverity;
+}
+
+interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+// Each file is decoded once no matter how many rules look at it; the resolved
+// sizes are kept separately so rule messages can read them synchronously
+const pendingDimensions = new WeakMap<File, Promise<ImageDimensions | null>>();
+const resolvedDimensions = new WeakMap<File, ImageDimensions>();
+
+export const getImageDimensions = (file: File): Promise<ImageDimensions | null> => {
+  let pending = pendingDimensions.get(file);
+  if (!pending) {
+    pending = createImageBitmap(file)
+      .then((bitmap) => {
+        const dimensions = { width: bitmap.width, height: bitmap.height };
+        bitmap.close();
+        resolvedDimensions.set(file, dimensions);
+        return dimensions;
+      })
+      .catch(() => null);
+    pendingDimensions.set(file, pending);
+  }
+  return pending;
+};
+
+const isImage = (file: File, { detectedType }: ValidationContext) =>
+  (detectedType?.mime ?? file.type).startsWith('image/');
+
+const parseAspectRatio = (ratio: number | string) => {
+  if (typeof ratio === 'number') return ratio;
+  const [width, height] = ratio.split(':').map(Number);
+  return height ? width / height : width;
+};
+
+const describeSize = (file: File) => {
+  const dimensions = resolvedDimensions.get(file);
+  return dimensions ? `${dimensions.width}×${dimensions.height}` : '未知尺寸';
+};
+
+// A rule that only applies to decodable images; everything else passes
+const imageRule = (
+  id: string,
+  severity: RuleSeverity,
+  message: (file: File) => string,
+  passes: (dimensions: ImageDimensions) => boolean
+): ValidationRule => ({
+  id,
+  severity,
+  message,
+  check: async (file, context) => {
+    if (!isImage(file, context)) return true;
+    const dimensions = await getImageDimensions(file);
+    return !dimensions || passes(dimensions);
+  },
+});
+
+export const createImageConstraintRules = ({
+  minWidth = 0,
+  minHeight = 0,
+  maxWidth = Infinity,
+  maxHeight = Infinity,
+  aspectRatios = [],
+  aspectRatioTolerance = 0.01,
+  maxMegapixels,
+  severity = 'error',
+}: ImageConstraints): ValidationRule[] => {
+  const ratios = aspectRatios.map(parseAspectRatio);
+  const rules: ValidationRule[] = [
+    {
+      id: 'image-decodable',
+      severity: 'warning',
+      message: '无法解码图片，已跳过尺寸检查',
+      check: async (file, context) => !isImage(file, context) || !!(await getImageDimensions(file)),
+    },
+  ];
+
+  if (minWidth > 0 || minHeight > 0) {
+    rules.push(
+      imageRule(
+        'image-min-size',
+        severity,
+        (file) => `图片尺寸 ${describeSize(file)} 过小，至少需要 ${minWidth}×${minHeight}`,
+        ({ width, height }) => width >= minWidth && height >= minHeight
+      )
+    );
+  }
+
+  if (maxWidth < Infinity || maxHeight < Infinity) {
+    rules.push(
+      imageRule(
+        'image-max-size',
+        severity,
+        (file) => `图片尺寸 ${describeSize(file)} 过大，最大允许 ${maxWidth}×${maxHeight}`,
+        ({ width, height }) => width <= maxWidth && height <= maxHeight
+      )
+    );
+  }
+
+  if (ratios.length > 0) {
+    rules.push(
+      imageRule(
+        'image-aspect-ratio',
+        severity,
+        (file) => `图片宽高比不符合要求 (${describeSize(file)})，允许: ${aspectRatios.join(', ')}`,
+        ({ width, height }) =>
+          ratios.some((ratio) => Math.abs(width / height - ratio) / ratio <= aspectRatioTolerance)
+      )
+    );
+  }
+
+  if (maxMegapixels !== undefined) {
+    rules.push(
+      imageRule(
+        'image-megapixels',
+        severity,
+        (file) => `图片像素数过多 (${describeSize(file)})，最多 ${maxMegapixels} 百万像素`,
+        ({ width, height }) => (width * height) / 1000000 <= maxMegapixels
+      )
+    );
+  }
+
+  return rules;
+};
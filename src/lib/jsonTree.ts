@@ -0,0 +1,295 @@
+// Parsing, path formatting and a small JSONPath subset for the JSON tree viewer
+
+export type JsonPathSegment = string | number;
+
+export interface JsonMatch {
+  path: JsonPathSegment[];
+  value: unknown;
+}
+
+// Line and column are 1-based and count UTF-16 code units, like editors do
+export class JsonSyntaxError extends Error {
+  offset: number;
+  line: number;
+  column: number;
+
+  constructor(message: string, text: string, offset: number) {
+    super(message);
+    this.name = 'JsonSyntaxError';
+    this.offset = offset;
+    const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+    this.line = 1;
+    for (let i = 0; i < lineStart; i++) {
+      if (text.charCodeAt(i) === 10) this.line++;
+    }
+    this.column = offset - lineStart + 1;
+  }
+}
+
+const WHITESPACE = ' \t\n\r';
+const ESCAPES = '"\\/bfnrt';
+const NUMBER = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+const LITERALS = ['true', 'false', 'null'];
+
+// JSON.parse only reports the error position in an engine-specific message,
+// so a failed document is scanned again to find exactly where it breaks
+const locateSyntaxError = (text: string) => {
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    throw new JsonSyntaxError(message, text, pos);
+  };
+  const unexpected = (expected: string): never =>
+    fail(pos >= text.length ? `意外的文件结尾，应为${expected}` : `意外的字符 ${JSON.stringify(text[pos])}，应为${expected}`);
+  const skipWhitespace = () => {
+    while (pos < text.length && WHITESPACE.includes(text[pos])) pos++;
+  };
+  const consume = (char: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) unexpected(`"${char}"`);
+    pos++;
+  };
+
+  const scanString = () => {
+    pos++;
+    for (;;) {
+      if (pos >= text.length) fail('字符串没有结束引号');
+      const char = text[pos];
+      if (char === '"') {
+        pos++;
+        return;
+      }
+      if (char.charCodeAt(0) < 0x20) fail('字符串中不能直接包含控制字符');
+      if (char === '\\') {
+        pos++;
+        if (text[pos] === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(pos + 1, pos + 5))) fail('无效的 \\u 转义序列');
+          pos += 5;
+        } else if (pos < text.length && ESCAPES.includes(text[pos])) {
+          pos++;
+        } else {
+          fail('无效的转义字符');
+        }
+      } else {
+        pos++;
+      }
+    }
+  };
+
+  const scanValue = () => {
+    skipWhitespace();
+    const char = text[pos];
+
+    if (char === '{') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === '}') {
+        pos++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') unexpected('属性名');
+        scanString();
+        consume(':');
+        scanValue();
+        skipWhitespace();
+        if (text[pos] !== ',') break;
+        pos++;
+      }
+      consume('}');
+    } else if (char === '[') {
+      pos++;
+      skipWhitespace();
+      if (text[pos] === ']') {
+        pos++;
+        return;
+      }
+      for (;;) {
+        scanValue();
+        skipWhitespace();
+        if (text[pos] !== ',') break;
+        pos++;
+      }
+      consume(']');
+    } else if (char === '"') {
+      scanString();
+    } else {
+      NUMBER.lastIndex = pos;
+      const literal = LITERALS.find((word) => text.startsWith(word, pos));
+      if (literal) pos += literal.length;
+      else if (NUMBER.test(text)) pos = NUMBER.lastIndex;
+      else unexpected('值');
+    }
+  };
+
+  scanValue();
+  skipWhitespace();
+  if (pos < text.length) fail(`文档结束后还有多余的内容 ${JSON.stringify(text[pos])}`);
+};
+
+// Throws JsonSyntaxError with the position of the first error
+export const parseJsonDocument = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    try {
+      locateSyntaxError(text);
+    } catch (located) {
+      if (located instanceof JsonSyntaxError) throw located;
+    }
+    // The scanner found nothing (or ran out of stack on absurd nesting)
+    throw new JsonSyntaxError(error instanceof Error ? error.message : 'JSON 解析失败', text, 0);
+  }
+};
+
+// The line containing offset, cut to at most width characters around it
+export const getSourceExcerpt = (text: string, offset: number, width = 80) => {
+  const lineStart = text.lastIndexOf('\n', offset - 1) + 1;
+  const newline = text.indexOf('\n', offset);
+  const lineEnd = newline === -1 ? text.length : newline;
+  const start = Math.max(lineStart, Math.min(offset - Math.floor(width / 2), lineEnd - width));
+  return {
+    text: text.slice(start, Math.min(lineEnd, start + width)).replace(/\r$/, ''),
+    caret: offset - start,
+  };
+};
+
+export const isJsonContainer = (value: unknown): value is Record<string, unknown> | unknown[] =>
+  typeof value === 'object' && value !== null;
+
+export const getJsonChildren = (value: unknown): [JsonPathSegment, unknown][] => {
+  if (Array.isArray(value)) return value.map((item, index) => [index, item]);
+  if (isJsonContainer(value)) return Object.entries(value);
+  return [];
+};
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// ["items", 0, "display name"] -> $.items[0]["display name"]
+export const formatJsonPath = (path: JsonPathSegment[]) =>
+  path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    return IDENTIFIER.test(segment) ? `${result}.${segment}` : `${result}[${JSON.stringify(segment)}]`;
+  }, '$');
+
+type JsonPathSelector =
+  | { type: 'name'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' };
+
+export interface JsonPathStep {
+  // "descendant" is the .. operator: the selector applies at any depth
+  descendant: boolean;
+  selector: JsonPathSelector;
+}
+
+const NAME_STEP = /^(\.\.?)(\*|[^.[\]\s]+)/;
+const BRACKET_STEP = /^(\.\.)?\[\s*(\*|-?\d+|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*")\s*\]/;
+
+// Inside quotes a backslash only escapes the next character, e.g. ['it\'s']
+const unquote = (quoted: string) => quoted.slice(1, -1).replace(/\\(.)/g, '$1');
+
+// Supports $, .name, ['name'], [index] (negative counts from the end), [*],
+// .* and the recursive .. operator; the leading $ may be omitted
+export const parseJsonPath = (query: string): JsonPathStep[] | null => {
+  let rest = query.trim();
+  if (rest.startsWith('$')) rest = rest.slice(1);
+  else if (rest && !rest.startsWith('.') && !rest.startsWith('[')) rest = `.${rest}`;
+
+  const steps: JsonPathStep[] = [];
+  while (rest) {
+    const bracket = rest.match(BRACKET_STEP);
+    const name = bracket ? null : rest.match(NAME_STEP);
+    const match = bracket ?? name;
+    if (!match) return null;
+
+    const token = bracket ? bracket[2] : name![2];
+    const descendant = bracket ? !!bracket[1] : name![1] === '..';
+    let selector: JsonPathSelector;
+    if (token === '*') selector = { type: 'wildcard' };
+    else if (bracket && /^-?\d+$/.test(token)) selector = { type: 'index', index: Number(token) };
+    else if (bracket) selector = { type: 'name', name: unquote(token) };
+    else selector = { type: 'name', name: token };
+
+    steps.push({ descendant, selector });
+    rest = rest.slice(match[0].length).trimStart();
+  }
+  return steps;
+};
+
+// Paths are linked to their parent while querying and only turned into arrays
+// for the returned matches, so walking a large document does not copy paths
+interface JsonCursor {
+  value: unknown;
+  parent?: JsonCursor;
+  segment?: JsonPathSegment;
+}
+
+const toPath = (cursor: JsonCursor) => {
+  const path: JsonPathSegment[] = [];
+  for (let current = cursor; current.parent; current = current.parent) path.push(current.segment!);
+  return path.reverse();
+};
+
+function* selectChildren(node: JsonCursor, selector: JsonPathSelector): Generator<JsonCursor> {
+  const { value } = node;
+  if (!isJsonContainer(value)) return;
+
+  if (selector.type === 'wildcard') {
+    for (const [segment, child] of getJsonChildren(value)) yield { value: child, parent: node, segment };
+    return;
+  }
+  if (selector.type === 'index') {
+    if (!Array.isArray(value)) return;
+    const index = selector.index < 0 ? value.length + selector.index : selector.index;
+    if (index >= 0 && index < value.length) yield { value: value[index], parent: node, segment: index };
+    return;
+  }
+  if (Array.isArray(value) || !Object.prototype.hasOwnProperty.call(value, selector.name)) return;
+  yield { value: value[selector.name], parent: node, segment: selector.name };
+}
+
+// The node itself and everything below it, depth first
+function* walkDescendants(node: JsonCursor): Generator<JsonCursor> {
+  const stack = [node];
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    yield current;
+    const { value } = current;
+    if (Array.isArray(value)) {
+      for (let i = value.length - 1; i >= 0; i--) stack.push({ value: value[i], parent: current, segment: i });
+    } else if (isJsonContainer(value)) {
+      const keys = Object.keys(value);
+      for (let i = keys.length - 1; i >= 0; i--) stack.push({ value: value[keys[i]], parent: current, segment: keys[i] });
+    }
+  }
+}
+
+function* applyStep(nodes: Iterable<JsonCursor>, { descendant, selector }: JsonPathStep): Generator<JsonCursor> {
+  for (const node of nodes) {
+    if (!descendant) {
+      yield* selectChildren(node, selector);
+      continue;
+    }
+    for (const candidate of walkDescendants(node)) yield* selectChildren(candidate, selector);
+  }
+}
+
+export interface JsonQueryResult {
+  matches: JsonMatch[];
+  // True when more nodes matched than maxMatches allowed
+  truncated: boolean;
+}
+
+// Steps are chained lazily, so the document is only walked until maxMatches
+// results are found; a "..*" over a huge document stays cheap
+export const queryJsonPath = (root: unknown, steps: JsonPathStep[], maxMatches = 10000): JsonQueryResult => {
+  const nodes = steps.reduce<Iterable<JsonCursor>>((input, step) => applyStep(input, step), [{ value: root }]);
+  const matches: JsonMatch[] = [];
+  for (const node of nodes) {
+    if (matches.length >= maxMatches) return { matches, truncated: true };
+    matches.push({ path: toPath(node), value: node.value });
+  }
+  return { matches, truncated: false };
+};
@@ -0,0 +1,387 @@
+import { BlobReader, createBlobReader } from '@/lib/blobReader';
+
+// Parser for the Windows MINIDUMP format (also written by Breakpad/Crashpad on
+// other platforms). Only the header, the stream directory and the streams
+// needed for triage are read, so large full-memory dumps stay cheap.
+// Layouts follow minidumpapiset.h; every structure is little-endian.
+
+const MINIDUMP_SIGNATURE = 0x504d444d; // "MDMP"
+const MINIDUMP_VERSION = 0xa793;
+const HEADER_SIZE = 32;
+const DIRECTORY_ENTRY_SIZE = 12;
+const MODULE_SIZE = 108;
+const THREAD_SIZE = 48;
+const MAX_STREAMS = 1024;
+const MAX_LIST_ITEMS = 65536;
+const MAX_STRING_BYTES = 64 * 1024;
+const CODEVIEW_RSDS = 0x53445352; // "RSDS"
+
+export const MINIDUMP_MIME = 'application/x-dmp';
+
+const STREAM_NAMES: Record<number, string> = {
+  3: 'ThreadList',
+  4: 'ModuleList',
+  5: 'MemoryList',
+  6: 'Exception',
+  7: 'SystemInfo',
+  8: 'ThreadExList',
+  9: 'Memory64List',
+  10: 'CommentA',
+  11: 'CommentW',
+  12: 'HandleData',
+  13: 'FunctionTable',
+  14: 'UnloadedModuleList',
+  15: 'MiscInfo',
+  16: 'MemoryInfoList',
+  17: 'ThreadInfoList',
+  18: 'HandleOperationList',
+  19: 'Token',
+  20: 'JavaScriptData',
+  21: 'SystemMemoryInfo',
+  22: 'ProcessVmCounters',
+  23: 'IptTrace',
+  24: 'ThreadNames',
+  0x47670001: 'BreakpadInfo',
+  0x47670007: 'LinuxProcStatus',
+  0x4b6b0002: 'CrashpadInfo',
+};
+
+const ARCHITECTURES: Record<number, string> = {
+  0: 'x86',
+  5: 'ARM',
+  6: 'IA64',
+  9: 'x64',
+  12: 'ARM64',
+  0x8003: 'PowerPC',
+  0x8005: 'MIPS',
+};
+
+const PLATFORMS: Record<number, string> = {
+  0x8101: 'macOS',
+  0x8102: 'iOS',
+  0x8201: 'Linux',
+  0x8202: 'Solaris',
+  0x8203: 'Android',
+  0x8204: 'PS3',
+  0x8205: 'NaCl',
+  0x8206: 'Fuchsia',
+};
+
+const EXCEPTION_NAMES: Record<number, string> = {
+  0x80000003: 'EXCEPTION_BREAKPOINT',
+  0x80000004: 'EXCEPTION_SINGLE_STEP',
+  0xc0000005: 'EXCEPTION_ACCESS_VIOLATION',
+  0xc0000006: 'EXCEPTION_IN_PAGE_ERROR',
+  0xc0000008: 'STATUS_INVALID_HANDLE',
+  0xc0000017: 'STATUS_NO_MEMORY',
+  0xc000001d: 'EXCEPTION_ILLEGAL_INSTRUCTION',
+  0xc0000025: 'EXCEPTION_NONCONTINUABLE_EXCEPTION',
+  0xc000008c: 'EXCEPTION_ARRAY_BOUNDS_EXCEEDED',
+  0xc000008e: 'EXCEPTION_FLT_DIVIDE_BY_ZERO',
+  0xc0000094: 'EXCEPTION_INT_DIVIDE_BY_ZERO',
+  0xc0000095: 'EXCEPTION_INT_OVERFLOW',
+  0xc0000096: 'EXCEPTION_PRIV_INSTRUCTION',
+  0xc00000fd: 'EXCEPTION_STACK_OVERFLOW',
+  0xc0000374: 'STATUS_HEAP_CORRUPTION',
+  0xc0000409: 'STATUS_STACK_BUFFER_OVERRUN',
+  0xc0000420: 'STATUS_ASSERTION_FAILURE',
+  0xc0000602: 'STATUS_FAIL_FAST_EXCEPTION',
+  0xe06d7363: 'C++ exception',
+  0x40000015: 'STATUS_FATAL_APP_EXIT',
+};
+
+const ACCESS_VIOLATION_KINDS: Record<number, string> = { 0: 'read', 1: 'write', 8: 'execute (DEP)' };
+
+// Everything is kept JSON-friendly (no bigint, no Date) so the summary can be
+// stored as upload metadata; 64-bit addresses are hex strings
+export interface MinidumpStream {
+  type: number;
+  name: string;
+  size: number;
+}
+
+export interface MinidumpSystemInfo {
+  architecture: string;
+  processorCount: number;
+  processorLevel: number;
+  processorRevision: number;
+  cpuVendor?: string;
+  os: string;
+  osVersion: string;
+  servicePack?: string;
+}
+
+export interface MinidumpException {
+  threadId: number;
+  code: number;
+  codeName?: string;
+  flags: number;
+  address: string;
+  parameters: string[];
+  // Human-readable reason, e.g. "write at 0x0000000000000010"
+  description?: string;
+  // Module containing the exception address, as "name+0xoffset"
+  location?: string;
+}
+
+export interface MinidumpModule {
+  name: string;
+  baseAddress: string;
+  size: number;
+  version?: string;
+  // Seconds since the Unix epoch, from the PE header
+  timestamp: number;
+  pdbName?: string;
+  // GUID + age, the key symbol servers index PDBs by
+  pdbId?: string;
+}
+
+export interface MinidumpThread {
+  id: number;
+  suspendCount: number;
+  priorityClass: number;
+  priority: number;
+  teb: string;
+  stackStart: string;
+  stackSize: number;
+}
+
+export interface MinidumpSummary {
+  version: number;
+  // Seconds since the Unix epoch
+  timestamp: number;
+  flags: string;
+  streams: MinidumpStream[];
+  system?: MinidumpSystemInfo;
+  exception?: MinidumpException;
+  modules: MinidumpModule[];
+  threads: MinidumpThread[];
+  // Set by trimMinidumpSummary: modules and threads only hold the crash site
+  trimmed?: boolean;
+}
+
+const readView = async (reader: BlobReader, offset: number, length: number) => {
+  const bytes = await reader.read(offset, length);
+  if (bytes.length < length) throw new Error(`转储文件在偏移 ${offset} 处被截断`);
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+};
+
+const toHex = (value: bigint | number, digits = 16) => `0x${value.toString(16).toUpperCase().padStart(digits, '0')}`;
+
+// MINIDUMP_STRING: u32 byte length followed by UTF-16LE text
+const readString = async (reader: BlobReader, rva: number) => {
+  if (rva === 0) return '';
+  const length = (await readView(reader, rva, 4)).getUint32(0, true);
+  const bytes = await reader.read(rva + 4, Math.min(length, MAX_STRING_BYTES));
+  return new TextDecoder('utf-16le').decode(bytes);
+};
+
+export const getBaseName = (path: string) => path.split(/[\\/]/).pop() ?? path;
+
+const describeWindowsVersion = (major: number, minor: number, build: number, productType: number) => {
+  const server = productType !== 1;
+  if (major === 10) {
+    if (server) return 'Windows Server';
+    return build >= 22000 ? 'Windows 11' : 'Windows 10';
+  }
+  const names: Record<string, [string, string]> = {
+    '6.3': ['Windows 8.1', 'Windows Server 2012 R2'],
+    '6.2': ['Windows 8', 'Windows Server 2012'],
+    '6.1': ['Windows 7', 'Windows Server 2008 R2'],
+    '6.0': ['Windows Vista', 'Windows Server 2008'],
+    '5.2': ['Windows XP x64', 'Windows Server 2003'],
+    '5.1': ['Windows XP', 'Windows XP'],
+  };
+  return names[`${major}.${minor}`]?.[server ? 1 : 0] ?? 'Windows';
+};
+
+const parseSystemInfo = async (reader: BlobReader, rva: number): Promise<MinidumpSystemInfo> => {
+  const view = await readView(reader, rva, 56);
+  const architecture = view.getUint16(0, true);
+  const productType = view.getUint8(7);
+  const major = view.getUint32(8, true);
+  const minor = view.getUint32(12, true);
+  const build = view.getUint32(16, true);
+  const platformId = view.getUint32(20, true);
+  const servicePack = await readString(reader, view.getUint32(24, true)).catch(() => '');
+
+  // x86 and x64 dumps keep the CPUID vendor string in the CPU_INFORMATION union
+  const vendorBytes = new Uint8Array(view.buffer, view.byteOffset + 32, 12);
+  const cpuVendor = architecture === 0 || architecture === 9
+    ? new TextDecoder('ascii').decode(vendorBytes).replace(/\0+$/, '')
+    : undefined;
+
+  return {
+    architecture: ARCHITECTURES[architecture] ?? `未知 (${architecture})`,
+    processorCount: view.getUint8(6),
+    processorLevel: view.getUint16(2, true),
+    processorRevision: view.getUint16(4, true),
+    cpuVendor: cpuVendor || undefined,
+    os: platformId === 2 ? describeWindowsVersion(major, minor, build, productType) : PLATFORMS[platformId] ?? `平台 ${toHex(platformId, 4)}`,
+    osVersion: `${major}.${minor}.${build}`,
+    servicePack: servicePack || undefined,
+  };
+};
+
+const parseException = async (reader: BlobReader, rva: number): Promise<MinidumpException> => {
+  const view = await readView(reader, rva, 160);
+  const code = view.getUint32(8, true);
+  const parameterCount = Math.min(view.getUint32(32, true), 15);
+  const parameters = Array.from({ length: parameterCount }, (_, i) => view.getBigUint64(40 + i * 8, true));
+
+  let description: string | undefined;
+  if ((code === 0xc0000005 || code === 0xc0000006) && parameters.length >= 2) {
+    const kind = ACCESS_VIOLATION_KINDS[Number(parameters[0])] ?? `access ${parameters[0]}`;
+    description = `${kind} at ${toHex(parameters[1])}`;
+  } else if (code === 0xc0000409 && parameters.length >= 1) {
+    description = `fast fail code ${parameters[0]}`;
+  }
+
+  return {
+    threadId: view.getUint32(0, true),
+    code,
+    codeName: EXCEPTION_NAMES[code],
+    flags: view.getUint32(12, true),
+    address: toHex(view.getBigUint64(24, true)),
+    parameters: parameters.map((parameter) => toHex(parameter)),
+    description,
+  };
+};
+
+// CodeView record: "RSDS", GUID, age, then the NUL-terminated PDB path
+const readPdbInfo = async (reader: BlobReader, size: number, rva: number) => {
+  if (size < 24 || rva === 0) return {};
+  const view = await readView(reader, rva, Math.min(size, 24 + 1024));
+  if (view.getUint32(0, true) !== CODEVIEW_RSDS) return {};
+
+  const guid = [
+    view.getUint32(4, true).toString(16).padStart(8, '0'),
+    view.getUint16(8, true).toString(16).padStart(4, '0'),
+    view.getUint16(10, true).toString(16).padStart(4, '0'),
+    ...Array.from({ length: 8 }, (_, i) => view.getUint8(12 + i).toString(16).padStart(2, '0')),
+  ].join('');
+  const nameBytes = new Uint8Array(view.buffer, view.byteOffset + 24, view.byteLength - 24);
+  const end = nameBytes.indexOf(0);
+  const pdbPath = new TextDecoder().decode(end === -1 ? nameBytes : nameBytes.subarray(0, end));
+
+  return {
+    pdbName: getBaseName(pdbPath),
+    pdbId: `${guid}${view.getUint32(20, true).toString(16)}`.toUpperCase(),
+  };
+};
+
+const formatFileVersion = (high: number, low: number) =>
+  `${high >>> 16}.${high & 0xffff}.${low >>> 16}.${low & 0xffff}`;
+
+const parseModuleList = async (reader: BlobReader, rva: number): Promise<MinidumpModule[]> => {
+  const count = Math.min((await readView(reader, rva, 4)).getUint32(0, true), MAX_LIST_ITEMS);
+  const view = await readView(reader, rva + 4, count * MODULE_SIZE);
+
+  return Promise.all(
+    Array.from({ length: count }, async (_, i) => {
+      const offset = i * MODULE_SIZE;
+      // VS_FIXEDFILEINFO starts at +24 and is only filled in when its signature is present
+      const hasVersion = view.getUint32(offset + 24, true) === 0xfeef04bd;
+      return {
+        name: await readString(reader, view.getUint32(offset + 20, true)),
+        baseAddress: toHex(view.getBigUint64(offset, true)),
+        size: view.getUint32(offset + 8, true),
+        timestamp: view.getUint32(offset + 16, true),
+        version: hasVersion
+          ? formatFileVersion(view.getUint32(offset + 32, true), view.getUint32(offset + 36, true))
+          : undefined,
+        ...(await readPdbInfo(reader, view.getUint32(offset + 76, true), view.getUint32(offset + 80, true)).catch(() => ({}))),
+      };
+    })
+  );
+};
+
+const parseThreadList = async (reader: BlobReader, rva: number): Promise<MinidumpThread[]> => {
+  const count = Math.min((await readView(reader, rva, 4)).getUint32(0, true), MAX_LIST_ITEMS);
+  const view = await readView(reader, rva + 4, count * THREAD_SIZE);
+
+  return Array.from({ length: count }, (_, i) => {
+    const offset = i * THREAD_SIZE;
+    return {
+      id: view.getUint32(offset, true),
+      suspendCount: view.getUint32(offset + 4, true),
+      priorityClass: view.getUint32(offset + 8, true),
+      priority: view.getUint32(offset + 12, true),
+      teb: toHex(view.getBigUint64(offset + 16, true)),
+      stackStart: toHex(view.getBigUint64(offset + 24, true)),
+      stackSize: view.getUint32(offset + 32, true),
+    };
+  });
+};
+
+const findModuleContaining = (modules: MinidumpModule[], address: string) => {
+  const target = BigInt(address);
+  return modules.find(({ baseAddress, size }) => {
+    const base = BigInt(baseAddress);
+    return target >= base && target < base + BigInt(size);
+  });
+};
+
+// "name+0xoffset" for the module whose image contains the address
+export const findModuleForAddress = (modules: MinidumpModule[], address: string) => {
+  const module = findModuleContaining(modules, address);
+  return module && `${getBaseName(module.name)}+0x${(BigInt(address) - BigInt(module.baseAddress)).toString(16).toUpperCase()}`;
+};
+
+// Keeps what triage needs first (system info, the exception, the faulting
+// module and the crashing thread) for places with a tight size limit
+export const trimMinidumpSummary = (summary: MinidumpSummary): MinidumpSummary => {
+  const { exception } = summary;
+  const faultingModule = exception && findModuleContaining(summary.modules, exception.address);
+  return {
+    ...summary,
+    streams: [],
+    modules: faultingModule ? [faultingModule] : [],
+    threads: exception ? summary.threads.filter((thread) => thread.id === exception.threadId) : [],
+    trimmed: true,
+  };
+};
+
+export const getExceptionName = (exception: MinidumpException) =>
+  exception.codeName ?? toHex(exception.code, 8);
+
+export const parseMinidump = async (blob: Blob): Promise<MinidumpSummary> => {
+  const reader = createBlobReader(blob);
+  const header = await readView(reader, 0, HEADER_SIZE);
+  if (header.getUint32(0, true) !== MINIDUMP_SIGNATURE) throw new Error('不是 Minidump 文件');
+  const version = header.getUint32(4, true) & 0xffff;
+  if (version !== MINIDUMP_VERSION) throw new Error(`不支持的 Minidump 版本 ${toHex(version, 4)}`);
+
+  const streamCount = Math.min(header.getUint32(8, true), MAX_STREAMS);
+  const directory = await readView(reader, header.getUint32(12, true), streamCount * DIRECTORY_ENTRY_SIZE);
+  const entries = Array.from({ length: streamCount }, (_, i) => ({
+    type: directory.getUint32(i * DIRECTORY_ENTRY_SIZE, true),
+    size: directory.getUint32(i * DIRECTORY_ENTRY_SIZE + 4, true),
+    rva: directory.getUint32(i * DIRECTORY_ENTRY_SIZE + 8, true),
+  }));
+  // Unused directory slots have type 0
+  const findStream = (type: number) => entries.find((entry) => entry.type === type && entry.size > 0);
+
+  const systemStream = findStream(7);
+  const exceptionStream = findStream(6);
+  const moduleStream = findStream(4);
+  const threadStream = findStream(3);
+
+  const summary: MinidumpSummary = {
+    version,
+    timestamp: header.getUint32(20, true),
+    flags: toHex(header.getBigUint64(24, true)),
+    streams: entries
+      .filter((entry) => entry.type !== 0)
+      .map(({ type, size }) => ({ type, size, name: STREAM_NAMES[type] ?? toHex(type, 8) })),
+    system: systemStream && (await parseSystemInfo(reader, systemStream.rva)),
+    exception: exceptionStream && (await parseException(reader, exceptionStream.rva)),
+    modules: moduleStream ? await parseModuleList(reader, moduleStream.rva) : [],
+    threads: threadStream ? await parseThreadList(reader, threadStream.rva) : [],
+  };
+
+  if (summary.exception) {
+    summary.exception.location = findModuleForAddress(summary.modules, summary.exception.address);
+  }
+  return summary;
+};
@@ -0,0 +1,129 @@
+import { getDocument, GlobalWorkerOptions, PDFDateString, TextLayer } from 'pdfjs-dist';
+import type { PDFDocumentProxy, PDFPageProxy, RenderTask } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { createAbortError, throwIfAborted } from '@/lib/abort';
+
+// Parsing runs in pdf.js's own worker, bundled as a separate asset
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export type { PDFDocumentProxy };
+
+// Stored with the uploaded file, so it only holds JSON-friendly values
+export interface PdfMetadata {
+  pageCount: number;
+  version?: string;
+  title?: string;
+  author?: string;
+  subject?: string;
+  creator?: string;
+  producer?: string;
+  // ISO 8601
+  createdAt?: string;
+  modifiedAt?: string;
+}
+
+// Aborting destroys the loading task, which also stops pdf.js's worker
+export const openPdfDocument = async (blob: Blob, signal?: AbortSignal) => {
+  const data = new Uint8Array(await blob.arrayBuffer());
+  throwIfAborted(signal);
+  const loadingTask = getDocument({ data });
+  const onAbort = () => loadingTask.destroy();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    return await loadingTask.promise;
+  } catch (error) {
+    throw signal?.aborted ? createAbortError() : error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+// Opens the document for a single task and destroys it afterwards, or as soon
+// as the signal aborts
+export const withPdfDocument = async <T>(
+  blob: Blob,
+  signal: AbortSignal | undefined,
+  task: (document: PDFDocumentProxy) => Promise<T>
+): Promise<T> => {
+  const document = await openPdfDocument(blob, signal);
+  const onAbort = () => document.destroy();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  try {
+    const result = await task(document);
+    throwIfAborted(signal);
+    return result;
+  } catch (error) {
+    throw signal?.aborted ? createAbortError() : error;
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    await document.destroy();
+  }
+};
+
+const readString = (info: Record<string, unknown>, key: string) => {
+  const value = info[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+};
+
+const readDate = (info: Record<string, unknown>, key: string) =>
+  PDFDateString.toDateObject(readString(info, key))?.toISOString();
+
+export const getPdfMetadata = async (document: PDFDocumentProxy): Promise<PdfMetadata> => {
+  const { info } = await document.getMetadata();
+  const fields = (info ?? {}) as Record<string, unknown>;
+  return {
+    pageCount: document.numPages,
+    version: readString(fields, 'PDFFormatVersion'),
+    title: readString(fields, 'Title'),
+    author: readString(fields, 'Author'),
+    subject: readString(fields, 'Subject'),
+    creator: readString(fields, 'Creator'),
+    producer: readString(fields, 'Producer'),
+    createdAt: readDate(fields, 'CreationDate'),
+    modifiedAt: readDate(fields, 'ModDate'),
+  };
+};
+
+export const readPdfMetadata = (blob: Blob, signal?: AbortSignal) => withPdfDocument(blob, signal, getPdfMetadata);
+
+export interface PdfRenderHandle {
+  promise: Promise<void>;
+  cancel: () => void;
+}
+
+// Draws the page at the given CSS scale, sharp on high-DPI screens; when a
+// text layer container is passed, transparent selectable text is laid over it
+export const renderPdfPage = (
+  page: PDFPageProxy,
+  canvas: HTMLCanvasElement,
+  scale: number,
+  textLayerContainer?: HTMLElement
+): PdfRenderHandle => {
+  const viewport = page.getViewport({ scale });
+  const outputScale = window.devicePixelRatio || 1;
+  canvas.width = Math.floor(viewport.width * outputScale);
+  canvas.height = Math.floor(viewport.height * outputScale);
+  canvas.style.width = `${Math.floor(viewport.width)}px`;
+  canvas.style.height = `${Math.floor(viewport.height)}px`;
+
+  const renderTask: RenderTask = page.render({
+    canvasContext: canvas.getContext('2d')!,
+    viewport,
+    transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+  });
+
+  let textLayer: TextLayer | null = null;
+  if (textLayerContainer) {
+    textLayerContainer.replaceChildren();
+    textLayerContainer.style.setProperty('--scale-factor', String(scale));
+    textLayer = new TextLayer({ textContentSource: page.streamTextContent(), container: textLayerContainer, viewport });
+  }
+
+  return {
+    promise: Promise.all([renderTask.promise, textLayer?.render()]).then(() => undefined),
+    cancel: () => {
+      renderTask.cancel();
+      textLayer?.cancel();
+    },
+  };
+};
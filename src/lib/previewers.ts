@@ -0,0 +1,83 @@
+import type { ComponentType } from 'react';
+import type { UploadedFileInfo } from '@/components/FileUploader';
+import { DetectedFileType, detectFileType, getFileExtension } from '@/lib/fileSignature';
+import { detectTextEncoding, looksBinary } from '@/lib/textEncoding';
+
+// Facts about the file shared by every previewer's matches() and load()
+export interface PreviewContext {
+  detectedType: DetectedFileType | null;
+  // Lowercase, without the dot; empty when the name has none
+  extension: string;
+}
+
+export interface PreviewerProps<T> {
+  file: UploadedFileInfo;
+  content: T;
+}
+
+// A previewer claims the files it can show, loads what it needs when the
+// preview is opened, and renders that content
+export interface Previewer<T = unknown> {
+  id: string;
+  matches: (file: File, context: PreviewContext) => boolean;
+  load: (file: File, context: PreviewContext) => Promise<T>;
+  // Frees whatever load() allocated, e.g. revokes object URLs, once the preview is closed
+  unload?: (content: T) => void;
+  component: ComponentType<PreviewerProps<T>>;
+}
+
+export interface TextPreviewContent {
+  // Raw bytes, so the viewer can decode them again with another encoding
+  bytes: Uint8Array;
+  encoding: string;
+  // True when only the first maxBytes of the file were read
+  truncated: boolean;
+}
+
+export interface LoadedPreview {
+  previewerId: string;
+  content: unknown;
+}
+
+// Erases the content type so previewers with different T fit in one list
+export const definePreviewer = <T>(previewer: Previewer<T>) => previewer as unknown as Previewer;
+
+export const getPreviewContext = async (file: File): Promise<PreviewContext> => ({
+  detectedType: await detectFileType(file).catch(() => null),
+  extension: getFileExtension(file.name),
+});
+
+// The first matching previewer whose load() succeeds wins, so a specific
+// previewer that cannot handle a damaged file falls back to a generic one
+export const loadPreview = async (file: File, previewers: Previewer[]): Promise<LoadedPreview | null> => {
+  const context = await getPreviewContext(file);
+  for (const previewer of previewers) {
+    if (!previewer.matches(file, context)) continue;
+    try {
+      return { previewerId: previewer.id, content: await previewer.load(file, context) };
+    } catch {
+      // Try the next matching previewer
+    }
+  }
+  return null;
+};
+
+export const unloadPreview = (preview: LoadedPreview, previewers: Previewer[]) => {
+  previewers.find((previewer) => previewer.id === preview.previewerId)?.unload?.(preview.content);
+};
+
+export const readAsText = (file: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error('读取文件失败'));
+    reader.readAsText(file);
+  });
+
+// Reads at most maxBytes so a huge log does not end up in memory as one string,
+// and rejects content that looks binary so the next previewer can take it
+export const readTextPreview = async (file: Blob, maxBytes: number): Promise<TextPreviewContent> => {
+  const bytes = new Uint8Array(await file.slice(0, maxBytes).arrayBuffer());
+  if (looksBinary(bytes)) throw new Error('文件内容不是文本');
+  return { bytes, encoding: detectTextEncoding(bytes), truncated: file.size > maxBytes };
+};
@@ -0,0 +1,38 @@
+import { UploadHttpError, UploadNetworkError } from '@/lib/uploadErrors';
+
+export interface RetryOptions {
+  // Total attempts including the first one
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Randomize each delay between 0 and the exponential value ("full jitter")
+  jitter?: boolean;
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export const defaultRetryOptions: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  jitter: true,
+  isRetryable: (error) => isTransientError(error),
+};
+
+// Network failures, timeouts, rate limiting and 5xx are worth another try;
+// other 4xx responses (e.g. 413 file too large) will fail the same way again
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof UploadNetworkError) return true;
+  if (error instanceof UploadHttpError) {
+    return error.status >= 500 || error.status === 429 || error.status === 408;
+  }
+  return false;
+};
+
+export const getRetryDelay = (attempt: number, options: Required<RetryOptions>, error: unknown) => {
+  if (error instanceof UploadHttpError && error.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, options.maxDelayMs);
+  }
+
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+  return options.jitter ? Math.random() * exponential : exponential;
+};
@@ -0,0 +1,315 @@
+// A small regex-based highlighter for previews. It does not parse anything,
+// it only colours the common token kinds of each language well enough to
+// make logs, configs and source files readable.
+
+export type TokenType =
+  | 'comment'
+  | 'string'
+  | 'keyword'
+  | 'literal'
+  | 'number'
+  | 'property'
+  | 'tag'
+  | 'attribute'
+  | 'heading'
+  | 'error'
+  | 'warning';
+
+export interface Token {
+  // null for plain text between matches
+  type: TokenType | null;
+  text: string;
+}
+
+export interface LanguageDefinition {
+  id: string;
+  label: string;
+  extensions: string[];
+  // Tried in order at every position; the patterns must not contain capturing groups
+  rules: [TokenType, RegExp][];
+  caseInsensitive?: boolean;
+}
+
+const keywords = (words: string) => new RegExp(`\\b(?:${words.trim().split(/\s+/).join('|')})\\b`);
+
+const LINE_COMMENT = /\/\/[^\n]*/;
+const BLOCK_COMMENT = /\/\*[\s\S]*?\*\//;
+const HASH_COMMENT = /#[^\n]*/;
+const DOUBLE_QUOTED = /"(?:[^"\\\n]|\\.)*"/;
+const SINGLE_QUOTED = /'(?:[^'\\\n]|\\.)*'/;
+const NUMBER = /\b(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/;
+
+const C_LIKE_KEYWORDS = `
+  if else for while do switch case default break continue return goto try catch finally throw throws
+  class struct enum union interface extends implements new delete this super static const final
+  public private protected internal virtual override abstract sealed namespace using package import
+  void int long short char float double bool boolean byte unsigned signed auto var let val fun func
+  fn mut impl trait pub mod use crate match where go defer chan select map range type typedef sizeof
+  async await yield in is as operator template typename inline extern volatile readonly`;
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    id: 'javascript',
+    label: 'JavaScript / TypeScript',
+    extensions: ['js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'mts', 'cts', 'vue', 'svelte'],
+    rules: [
+      ['comment', LINE_COMMENT],
+      ['comment', BLOCK_COMMENT],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['string', /`(?:[^`\\]|\\[\s\S])*`/],
+      ['keyword', keywords(`
+        const let var function return if else for while do switch case default break continue new class
+        extends import export from async await try catch finally throw typeof instanceof in of interface
+        type enum implements public private protected readonly static as yield delete void declare
+        namespace keyof satisfies`)],
+      ['literal', keywords('true false null undefined this super NaN Infinity')],
+      ['number', /\b(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?n?)\b/],
+    ],
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    extensions: ['json', 'jsonc', 'json5', 'har', 'geojson', 'webmanifest'],
+    rules: [
+      ['comment', LINE_COMMENT],
+      ['comment', BLOCK_COMMENT],
+      ['property', /"(?:[^"\\\n]|\\.)*"(?=\s*:)/],
+      ['string', DOUBLE_QUOTED],
+      ['literal', keywords('true false null')],
+      ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+    ],
+  },
+  {
+    id: 'xml',
+    label: 'XML / HTML',
+    extensions: ['xml', 'html', 'htm', 'xhtml', 'svg', 'xsd', 'xsl', 'xslt', 'plist', 'csproj', 'config', 'resx'],
+    rules: [
+      ['comment', /<!--[\s\S]*?-->/],
+      ['string', /<!\[CDATA\[[\s\S]*?\]\]>/],
+      ['keyword', /<[?!][\w-]+|\?>/],
+      ['tag', /<\/?[\w:.-]+|\/?>/],
+      ['attribute', /[\w:.-]+(?=\s*=\s*["'])/],
+      ['string', /(?<==\s*)(?:"[^"]*"|'[^']*')/],
+      ['literal', /&(?:#x?[\da-fA-F]+|\w+);/],
+    ],
+  },
+  {
+    id: 'yaml',
+    label: 'YAML',
+    extensions: ['yaml', 'yml'],
+    rules: [
+      ['comment', /(?:^|(?<=\s))#[^\n]*/],
+      ['keyword', /^(?:---|\.\.\.)(?=\s|$)/],
+      ['property', /[\w.-]+(?=[ \t]*:(?:\s|$))/],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['literal', keywords('true false null yes no on off True False Null')],
+      ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+      ['attribute', /[&*][\w-]+|![\w!-]*/],
+    ],
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    extensions: ['md', 'markdown', 'mdx'],
+    rules: [
+      ['heading', /^#{1,6}[ \t][^\n]*/],
+      ['string', /^```[^\n]*\n[\s\S]*?^```/],
+      ['string', /`[^`\n]+`/],
+      ['keyword', /\*\*[^*\n]+\*\*|__[^_\n]+__/],
+      ['attribute', /!?\[[^\]\n]*\]\([^)\n]*\)/],
+      ['comment', /^>[^\n]*/],
+      ['tag', /^[ \t]*(?:[-*+]|\d+\.)(?=[ \t])/],
+    ],
+  },
+  {
+    id: 'python',
+    label: 'Python',
+    extensions: ['py', 'pyw', 'pyi'],
+    rules: [
+      ['comment', HASH_COMMENT],
+      ['string', /[rbfuRBFU]{0,2}(?:"""[\s\S]*?"""|'''[\s\S]*?''')/],
+      ['string', /[rbfuRBFU]{0,2}(?:"(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*')/],
+      ['attribute', /@[\w.]+/],
+      ['keyword', keywords(`
+        def class return if elif else for while break continue pass import from as try except finally
+        raise with yield lambda global nonlocal assert del in is not and or async await match case`)],
+      ['literal', keywords('True False None self cls')],
+      ['number', NUMBER],
+    ],
+  },
+  {
+    id: 'shell',
+    label: 'Shell',
+    extensions: ['sh', 'bash', 'zsh', 'ps1', 'psm1', 'bat', 'cmd'],
+    rules: [
+      ['comment', /(?:^|(?<=\s))#[^\n]*|^[ \t]*(?:rem|::)\b[^\n]*/],
+      ['string', DOUBLE_QUOTED],
+      ['string', /'[^']*'/],
+      ['attribute', /\$\{[^}\n]*\}|\$[\w?@#$!*-]|%[\w]+%/],
+      ['keyword', keywords(`
+        if then else elif fi for while until do done case esac in function return local export
+        set echo exit source function param foreach`)],
+      ['number', NUMBER],
+    ],
+  },
+  {
+    id: 'sql',
+    label: 'SQL',
+    extensions: ['sql'],
+    caseInsensitive: true,
+    rules: [
+      ['comment', /--[^\n]*/],
+      ['comment', BLOCK_COMMENT],
+      ['string', /'(?:[^']|'')*'/],
+      ['property', /"[^"\n]*"|`[^`\n]*`|\[[^\]\n]*\]/],
+      ['keyword', keywords(`
+        select from where and or not insert into values update set delete create alter drop table index
+        view join left right inner outer full cross on group by order having limit offset union all
+        distinct as case when then else end is in like between exists primary key foreign references
+        default unique constraint begin commit rollback transaction with returning`)],
+      ['literal', keywords('null true false')],
+      ['number', NUMBER],
+    ],
+  },
+  {
+    id: 'css',
+    label: 'CSS',
+    extensions: ['css', 'scss', 'sass', 'less'],
+    rules: [
+      ['comment', BLOCK_COMMENT],
+      ['comment', /(?<=^|\s)\/\/[^\n]*/],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['keyword', /@[\w-]+/],
+      ['property', /[\w-]+(?=\s*:[^;{}]*[;}])/],
+      ['number', /#[\da-fA-F]{3,8}\b|-?\b\d+(?:\.\d+)?(?:px|em|rem|vh|vw|%|s|ms|deg|fr)?\b/],
+      ['attribute', /\$[\w-]+|--[\w-]+/],
+    ],
+  },
+  {
+    id: 'ini',
+    label: 'INI / TOML / Properties',
+    extensions: ['ini', 'cfg', 'conf', 'toml', 'properties', 'env', 'editorconfig', 'gitconfig', 'inf', 'reg'],
+    rules: [
+      ['comment', /^[ \t]*[;#][^\n]*/],
+      ['heading', /^[ \t]*\[[^\]\n]+\]+/],
+      ['property', /^[ \t]*[^\s=:[;#][^=:\n]*?(?=[ \t]*[=:])/],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['literal', keywords('true false yes no on off null')],
+      ['number', NUMBER],
+    ],
+  },
+  {
+    id: 'clike',
+    label: 'C / C++ / C# / Java / Go / Rust',
+    extensions: [
+      'c', 'h', 'cc', 'cpp', 'cxx', 'hpp', 'hh', 'cs', 'java', 'kt', 'kts', 'scala', 'go', 'rs', 'swift',
+      'm', 'mm', 'php', 'dart', 'gradle', 'groovy',
+    ],
+    rules: [
+      ['comment', LINE_COMMENT],
+      ['comment', BLOCK_COMMENT],
+      ['attribute', /^[ \t]*#[ \t]*\w+/],
+      ['string', DOUBLE_QUOTED],
+      ['string', SINGLE_QUOTED],
+      ['keyword', keywords(C_LIKE_KEYWORDS)],
+      ['literal', keywords('true false null nullptr nil NULL None Some Ok Err self Self')],
+      ['number', /\b(?:0[xX][\da-fA-F_]+|\d[\d_]*(?:\.\d+)?(?:[eE][+-]?\d+)?[fFdDlLuU]*)\b/],
+    ],
+  },
+  {
+    id: 'log',
+    label: '日志',
+    extensions: ['log', 'out', 'err', 'trace'],
+    rules: [
+      ['number', /\b\d{4}[-/]\d{2}[-/]\d{2}(?:[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?)?|\b\d{2}:\d{2}:\d{2}(?:[.,]\d+)?\b/],
+      ['error', keywords('ERROR ERR FATAL FAILED FAILURE CRITICAL CRIT SEVERE PANIC EXCEPTION')],
+      ['warning', keywords('WARN WARNING')],
+      ['keyword', keywords('INFO DEBUG TRACE VERBOSE NOTICE')],
+      ['string', DOUBLE_QUOTED],
+      ['attribute', /\[[\w.:/-]+\]/],
+    ],
+  },
+  {
+    id: 'plaintext',
+    label: '纯文本',
+    extensions: ['txt', 'text'],
+    rules: [],
+  },
+];
+
+export const PLAIN_TEXT = LANGUAGES[LANGUAGES.length - 1];
+
+// Every extension the text previewer claims without sniffing the content
+export const TEXT_EXTENSIONS = new Set([
+  ...LANGUAGES.flatMap((language) => language.extensions),
+  'csv', 'tsv', 'gitignore', 'dockerignore', 'lock', 'srt', 'vtt', 'tex', 'rst', 'adoc', 'diff', 'patch',
+]);
+
+export const getLanguage = (id: string) => LANGUAGES.find((language) => language.id === id) ?? PLAIN_TEXT;
+
+// By extension first, then by what the first line looks like
+export const detectLanguage = (extension: string, text: string): LanguageDefinition => {
+  const byExtension = LANGUAGES.find((language) => language.extensions.includes(extension));
+  if (byExtension) return byExtension;
+
+  const head = text.trimStart().slice(0, 200);
+  if (/^#!.*\b(?:ba|z)?sh\b/.test(head)) return getLanguage('shell');
+  if (/^#!.*\bpython/.test(head)) return getLanguage('python');
+  if (/^#!.*\bnode\b/.test(head)) return getLanguage('javascript');
+  if (/^<(?:\?xml|!DOCTYPE|html|svg)\b/i.test(head)) return getLanguage('xml');
+  if (/^[{[]\s*["{[\]}]/.test(head)) return getLanguage('json');
+  if (/^\d{4}[-/]\d{2}[-/]\d{2}[T ]\d{2}:\d{2}/.test(head)) return getLanguage('log');
+  return PLAIN_TEXT;
+};
+
+const combinedPatterns = new WeakMap<LanguageDefinition, RegExp>();
+
+// All rules of a language joined into one alternation, one capturing group per rule
+const getCombinedPattern = (language: LanguageDefinition) => {
+  let pattern = combinedPatterns.get(language);
+  if (!pattern) {
+    const source = language.rules.map(([, rule]) => `(${rule.source})`).join('|');
+    pattern = new RegExp(source, language.caseInsensitive ? 'gmi' : 'gm');
+    combinedPatterns.set(language, pattern);
+  }
+  return pattern;
+};
+
+const splitIntoLines = (tokens: Token[]) => {
+  const lines: Token[][] = [[]];
+  for (const { type, text } of tokens) {
+    const parts = text.split('\n');
+    parts.forEach((part, index) => {
+      if (index > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type, text: part });
+    });
+  }
+  return lines;
+};
+
+// Tokens per line; multi-line comments and strings are split at the line breaks
+export const highlightLines = (text: string, language: LanguageDefinition): Token[][] => {
+  const normalized = text.replace(/\r\n?/g, '\n');
+  if (language.rules.length === 0) return normalized.split('\n').map((line) => (line ? [{ type: null, text: line }] : []));
+
+  const pattern = getCombinedPattern(language);
+  const tokens: Token[] = [];
+  let position = 0;
+  pattern.lastIndex = 0;
+  for (let match = pattern.exec(normalized); match; match = pattern.exec(normalized)) {
+    if (match[0] === '') {
+      pattern.lastIndex++;
+      continue;
+    }
+    if (match.index > position) tokens.push({ type: null, text: normalized.slice(position, match.index) });
+    const ruleIndex = match.findIndex((group, index) => index > 0 && group !== undefined) - 1;
+    tokens.push({ type: language.rules[ruleIndex][0], text: match[0] });
+    position = match.index + match[0].length;
+  }
+  if (position < normalized.length) tokens.push({ type: null, text: normalized.slice(position) });
+  return splitIntoLines(tokens);
+};
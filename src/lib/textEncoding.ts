@@ -0,0 +1,70 @@
+// Encoding detection for text previews. Logs from Chinese Windows machines
+// are usually GBK/GB18030 without any marker, so besides the BOM check the
+// bytes are trial-decoded as strict UTF-8 first and GB18030 second.
+
+export interface TextEncodingOption {
+  value: string;
+  label: string;
+}
+
+// Labels accepted by TextDecoder; GB18030 is a superset of GBK and GB2312
+export const TEXT_ENCODINGS: TextEncodingOption[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'gb18030', label: 'GB18030 / GBK' },
+  { value: 'big5', label: 'Big5' },
+  { value: 'shift_jis', label: 'Shift_JIS' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+];
+
+// Only this many leading bytes are inspected for binary content
+const BINARY_SNIFF_BYTES = 8192;
+// Control characters other than \t \n \f \r and ESC (ANSI colours in logs)
+const isSuspiciousControl = (byte: number) =>
+  byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0c && byte !== 0x0d && byte !== 0x1b;
+
+export const detectBom = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+// A NUL byte or more than 10% odd control characters means binary data;
+// UTF-16 is full of NULs, so text with a UTF-16 BOM is never binary
+export const looksBinary = (bytes: Uint8Array) => {
+  const bom = detectBom(bytes);
+  if (bom === 'utf-16le' || bom === 'utf-16be') return false;
+
+  const sample = bytes.subarray(0, BINARY_SNIFF_BYTES);
+  let suspicious = 0;
+  for (const byte of sample) {
+    if (byte === 0) return true;
+    if (isSuspiciousControl(byte)) suspicious++;
+  }
+  return suspicious > sample.length * 0.1;
+};
+
+const decodesCleanly = (bytes: Uint8Array, encoding: string) => {
+  try {
+    // stream: true so a character cut off at the end of the sample is not an error
+    new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const detectTextEncoding = (bytes: Uint8Array) => {
+  const bom = detectBom(bytes);
+  if (bom) return bom;
+  if (decodesCleanly(bytes, 'utf-8')) return 'utf-8';
+  if (decodesCleanly(bytes, 'gb18030')) return 'gb18030';
+  return 'utf-8';
+};
+
+// The BOM is stripped; when the bytes are only the start of a file, a
+// multi-byte character cut off at the end is dropped instead of shown as U+FFFD
+export const decodeText = (bytes: Uint8Array, encoding: string, truncated = false) =>
+  new TextDecoder(encoding).decode(bytes, { stream: truncated });
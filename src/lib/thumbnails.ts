@@ -0,0 +1,165 @@
+import type { ThumbnailWorkerMessage, ThumbnailWorkerRequest } from '@/workers/thumbnailWorker';
+import { createAbortError, throwIfAborted } from '@/lib/abort';
+import { DetectedFileType, detectFileType } from '@/lib/fileSignature';
+import { renderPdfPage, withPdfDocument } from '@/lib/pdfDocument';
+
+export const THUMBNAIL_MAX_SIZE = 160;
+const THUMBNAIL_MIME = 'image/webp';
+const THUMBNAIL_QUALITY = 0.8;
+// pdf.js needs the whole document in memory, and draws on the main thread,
+// just for page one
+const PDF_THUMBNAIL_MAX_BYTES = 10 * 1024 * 1024;
+// Poster frame at 10% of the video, but no later than this
+const VIDEO_FRAME_MAX_SECONDS = 5;
+const VIDEO_LOAD_TIMEOUT_MS = 15000;
+
+export type ThumbnailSourceKind = 'image' | 'pdf' | 'video';
+
+export interface GeneratedThumbnail {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface GenerateThumbnailOptions {
+  maxSize?: number;
+  signal?: AbortSignal;
+}
+
+// Browsers cannot decode SVG in a worker, and most cannot decode TIFF at all
+const UNSUPPORTED_IMAGE_TYPES = ['image/svg+xml', 'image/tiff'];
+
+export const getThumbnailSourceKind = (
+  file: File,
+  detectedType: DetectedFileType | null
+): ThumbnailSourceKind | null => {
+  const mime = detectedType?.mime ?? file.type;
+  if (mime === 'application/pdf') return file.size <= PDF_THUMBNAIL_MAX_BYTES ? 'pdf' : null;
+  if (mime.startsWith('video/')) return 'video';
+  if (mime.startsWith('image/') && !UNSUPPORTED_IMAGE_TYPES.includes(mime)) return 'image';
+  return null;
+};
+
+export const isThumbnailSupported = () => typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+// Decoding and scaling run in a dedicated worker on an OffscreenCanvas;
+// an ImageBitmap source is transferred, not copied
+const runThumbnailWorker = (
+  source: Blob | ImageBitmap,
+  maxSize: number,
+  signal?: AbortSignal
+): Promise<GeneratedThumbnail> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const worker = new Worker(new URL('../workers/thumbnailWorker.ts', import.meta.url), { type: 'module' });
+    const onAbort = () => {
+      cleanup();
+      reject(createAbortError());
+    };
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<ThumbnailWorkerMessage>) => {
+      const message = event.data;
+      cleanup();
+      if (message.type === 'done') {
+        resolve({ blob: message.blob, width: message.width, height: message.height });
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || 'Thumbnail worker failed'));
+    };
+
+    const request: ThumbnailWorkerRequest = { source, maxSize, mimeType: THUMBNAIL_MIME, quality: THUMBNAIL_QUALITY };
+    worker.postMessage(request, source instanceof ImageBitmap ? [source] : []);
+  });
+};
+
+// Video decoding needs a <video> element, which only exists on the main thread
+const captureVideoFrame = (file: Blob, signal?: AbortSignal) =>
+  new Promise<ImageBitmap>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      video.onseeked = null;
+      video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+    };
+    const fail = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onAbort = () => fail(createAbortError());
+    const timer = setTimeout(() => fail(new Error('Timed out loading the video')), VIDEO_LOAD_TIMEOUT_MS);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : 0;
+      video.currentTime = Math.min(duration * 0.1, VIDEO_FRAME_MAX_SECONDS);
+    };
+    video.onseeked = () => {
+      createImageBitmap(video).then(
+        (bitmap) => {
+          cleanup();
+          resolve(bitmap);
+        },
+        (error) => fail(error instanceof Error ? error : new Error(String(error)))
+      );
+    };
+    video.onerror = () => fail(new Error('The video cannot be decoded'));
+    video.src = url;
+  });
+
+// pdf.js draws the first page on the main thread (its parser already runs in
+// a worker); the thumbnail worker then scales and encodes the result
+const renderPdfFirstPage = (file: Blob, maxSize: number, signal?: AbortSignal) =>
+  withPdfDocument(file, signal, async (document) => {
+    const page = await document.getPage(1);
+    const viewport = page.getViewport({ scale: 1 });
+    const canvas = window.document.createElement('canvas');
+    const render = renderPdfPage(page, canvas, maxSize / Math.max(viewport.width, viewport.height));
+    signal?.addEventListener('abort', render.cancel, { once: true });
+    try {
+      await render.promise;
+    } finally {
+      signal?.removeEventListener('abort', render.cancel);
+    }
+    return createImageBitmap(canvas);
+  });
+
+// Resolves to null for files that have no visual representation, or when the
+// browser lacks OffscreenCanvas
+export const generateThumbnail = async (
+  file: File,
+  { maxSize = THUMBNAIL_MAX_SIZE, signal }: GenerateThumbnailOptions = {}
+): Promise<GeneratedThumbnail | null> => {
+  if (!isThumbnailSupported()) return null;
+  const kind = getThumbnailSourceKind(file, await detectFileType(file).catch(() => null));
+  if (!kind) return null;
+  throwIfAborted(signal);
+
+  if (kind === 'image') return runThumbnailWorker(file, maxSize, signal);
+  const frame = kind === 'video' ? await captureVideoFrame(file, signal) : await renderPdfFirstPage(file, maxSize, signal);
+  if (signal?.aborted) {
+    frame.close();
+    throw createAbortError();
+  }
+  return runThumbnailWorker(frame, maxSize, signal);
+};
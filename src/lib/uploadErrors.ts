@@ -0,0 +1,32 @@
+// The server answered with a non-2xx status
+export class UploadHttpError extends Error {
+  status: number;
+  // Parsed from the Retry-After response header, if present
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'UploadHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// The request never got a response (offline, DNS, connection reset)
+export class UploadNetworkError extends Error {
+  constructor(message = 'Network error: upload interrupted') {
+    super(message);
+    this.name = 'UploadNetworkError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
@@ -0,0 +1,25 @@
+export type UploadPriority = 'fifo' | 'smallest-first';
+
+interface SchedulableItem {
+  file: File;
+  pinned?: boolean;
+}
+
+// Picks the queued items to start in the free slots. Pinned items always go
+// first, the rest follow the priority; items arrive in enqueue order and the
+// sort is stable, so ties keep that order.
+export const selectNextUploads = <T extends SchedulableItem>(
+  queued: T[],
+  slots: number,
+  priority: UploadPriority
+): T[] => {
+  if (slots <= 0) return [];
+
+  return [...queued]
+    .sort((a, b) => {
+      if (!!a.pinned !== !!b.pinned) return a.pinned ? -1 : 1;
+      if (priority === 'smallest-first') return a.file.size - b.file.size;
+      return 0;
+    })
+    .slice(0, slots);
+};
@@ -0,0 +1,221 @@
+import {
+  DetectedFileType,
+  detectFileType,
+  getFileExtension,
+  isDeclaredTypeConsistent,
+  isKnownExtension,
+} from '@/lib/fileSignature';
+import { formatFileSize } from '@/lib/format';
+import { splitAllowedFileTypes } from '@/lib/allowedFileTypes';
+
+export interface ValidationResult {
+  errors: string[];
+  warnings: string[];
+}
+
+export type RuleSeverity = 'error' | 'warning';
+
+// Facts about the file computed once and shared by every rule
+export interface ValidationContext {
+  detectedType: DetectedFileType | null;
+  // Lowercase, without the dot; empty when the name has none
+  extension: string;
+}
+
+// A single validation policy. Anything that is not covered by the factories
+// below can be written as a plain object with its own (optionally async) check.
+export interface ValidationRule {
+  id: string;
+  severity: RuleSeverity;
+  message: string | ((file: File, context: ValidationContext) => string);
+  // Resolves to true when the file passes the rule
+  check: (file: File, context: ValidationContext) => boolean | Promise<boolean>;
+}
+
+type RuleOverrides = Partial<Pick<ValidationRule, 'id' | 'severity' | 'message'>>;
+
+// "image/*" and "*/*" style wildcards, otherwise an exact match
+export const matchesMimeType = (type: string, pattern: string) => {
+  if (pattern === '*' || pattern === '*/*') return true;
+  if (pattern.endsWith('/*')) return type.startsWith(pattern.slice(0, -1));
+  return type === pattern;
+};
+
+export const minSizeRule = (bytes: number, overrides: RuleOverrides = {}): ValidationRule => ({
+  id: 'min-size',
+  severity: 'error',
+  message: `文件大小不能小于 ${formatFileSize(bytes)}`,
+  ...overrides,
+  check: (file) => file.size >= bytes,
+});
+
+export const maxSizeRule = (bytes: number, overrides: RuleOverrides = {}): ValidationRule => ({
+  id: 'max-size',
+  severity: 'error',
+  message: `文件大小超过 ${formatFileSize(bytes)} 限制`,
+  ...overrides,
+  check: (file) => file.size <= bytes,
+});
+
+export const fileNameRule = (pattern: RegExp, overrides: RuleOverrides = {}): ValidationRule => ({
+  id: 'file-name',
+  severity: 'error',
+  message: `文件名不符合规则 ${pattern}`,
+  ...overrides,
+  check: (file) => pattern.test(file.name),
+});
+
+export const extensionRule = (extensions: string[], overrides: RuleOverrides = {}): ValidationRule => {
+  const allowed = extensions.map((extension) => extension.replace(/^\./, '').toLowerCase());
+  return {
+    id: 'extension',
+    severity: 'error',
+    message: `不支持的扩展名。支持的扩展名: ${allowed.map((extension) => `.${extension}`).join(', ')}`,
+    ...overrides,
+    // Multi-dot entries such as "tar.gz" match the end of the name, since the
+    // detected extension is only the last segment
+    check: (file, { extension, detectedType }) =>
+      // Content detected as an executable needs one of its own extensions on
+      // the list; allowing .txt must not let a renamed PE or ELF through
+      (!detectedType?.executable || detectedType.extensions.some((entry) => allowed.includes(entry))) &&
+      allowed.some((entry) => {
+        if (!entry.includes('.')) return entry === extension;
+        const name = file.name.toLowerCase();
+        return name.endsWith(`.${entry}`) && name.length > entry.length + 1;
+      }),
+  };
+};
+
+// Checks the detected content type first; the declared file.type only counts
+// when detection finds nothing or the declared type is plausible for the content
+export const mimeTypeRule = (types: string[], overrides: RuleOverrides = {}): ValidationRule => ({
+  id: 'mime-type',
+  severity: 'error',
+  message: `不支持的文件类型。支持的类型: ${types.join(', ')}`,
+  ...overrides,
+  check: (file, { detectedType }) => {
+    if (types.length === 0) return true;
+    const isAllowed = (type: string) => types.some((pattern) => matchesMimeType(type, pattern));
+    if (!detectedType) return isAllowed(file.type);
+    const isDetectedTypeAllowed = isAllowed(detectedType.mime) || !!detectedType.aliases?.some(isAllowed);
+    // An executable declared as application/octet-stream (e.g. tool.bin) must
+    // not pass on the strength of a generic entry in the allowlist
+    if (detectedType.executable) return isDetectedTypeAllowed;
+    return isDetectedTypeAllowed || (isAllowed(file.type) && isDeclaredTypeConsistent(file.type, detectedType));
+  },
+});
+
+// Entries may mix extensions, MIME wildcards and exact MIME types (see
+// allowedFileTypes.ts); a file passes when it matches any of them
+export const allowedFileTypeRule = (entries: string[], overrides: RuleOverrides = {}): ValidationRule => {
+  const { extensions, mimeTypes } = splitAllowedFileTypes(entries);
+  const byExtension = extensionRule(extensions);
+  const byMimeType = mimeTypeRule(mimeTypes);
+
+  return {
+    id: 'allowed-type',
+    severity: 'error',
+    message: `不支持的文件类型。支持的类型: ${entries.join(', ')}`,
+    ...overrides,
+    check: async (file, context) =>
+      entries.length === 0 ||
+      (extensions.length > 0 && (await byExtension.check(file, context))) ||
+      (mimeTypes.length > 0 && (await byMimeType.check(file, context))),
+  };
+};
+
+const hasExtensionMismatch = ({ detectedType, extension }: ValidationContext) =>
+  !!detectedType && !!extension && isKnownExtension(extension) && !detectedType.extensions.includes(extension);
+
+// Compare the detected content against the name and the declared type
+export const contentSignatureRules: ValidationRule[] = [
+  {
+    id: 'disguised-executable',
+    severity: 'error',
+    message: (file, { detectedType, extension }) =>
+      `文件扩展名 .${extension} 与实际内容 (${detectedType?.label}) 不符，疑似伪装的可执行文件`,
+    check: (file, context) => !(context.detectedType?.executable && hasExtensionMismatch(context)),
+  },
+  {
+    id: 'extension-mismatch',
+    severity: 'warning',
+    message: (file, { detectedType, extension }) =>
+      `文件扩展名 .${extension} 与实际内容 (${detectedType?.label}) 不符`,
+    check: (file, context) => !!context.detectedType?.executable || !hasExtensionMismatch(context),
+  },
+  {
+    id: 'declared-type-mismatch',
+    severity: 'warning',
+    message: (file, { detectedType }) => `声明的类型 ${file.type} 与实际内容 (${detectedType?.label}) 不符`,
+    check: (file, context) =>
+      !context.detectedType ||
+      hasExtensionMismatch(context) ||
+      isDeclaredTypeConsistent(file.type, context.detectedType),
+  },
+];
+
+export interface DefaultRuleOptions {
+  maxSizeInMB: number;
+  allowedFileTypes: string[];
+}
+
+// The uploader's built-in policy; spread it into a custom list to extend it
+export const createDefaultValidationRules = ({
+  maxSizeInMB,
+  allowedFileTypes,
+}: DefaultRuleOptions): ValidationRule[] => {
+  const maxBytes = maxSizeInMB * 1024 * 1024;
+
+  return [
+    maxSizeRule(maxBytes, { message: `文件大小超过 ${maxSizeInMB}MB 限制` }),
+    allowedFileTypeRule(allowedFileTypes),
+    ...contentSignatureRules,
+    {
+      id: 'near-size-limit',
+      severity: 'warning',
+      message: (file) => `文件大小接近限制 (${formatFileSize(file.size)} / ${maxSizeInMB}MB)`,
+      // Only relevant while the file is still under the hard limit
+      check: (file) => file.size <= maxBytes * 0.8 || file.size > maxBytes,
+    },
+    {
+      id: 'file-name-length',
+      severity: 'warning',
+      message: '文件名过长，建议使用较短的文件名',
+      check: (file) => file.name.length <= 50,
+    },
+    {
+      id: 'has-extension',
+      severity: 'warning',
+      message: '文件没有扩展名，可能会影响识别',
+      check: (file) => file.name.includes('.'),
+    },
+  ];
+};
+
+// Runs every rule and reports all violations, not just the first one
+export const runValidationRules = async (file: File, rules: ValidationRule[]): Promise<ValidationResult> => {
+  const context: ValidationContext = {
+    detectedType: await detectFileType(file).catch(() => null),
+    extension: getFileExtension(file.name),
+  };
+
+  const violations = await Promise.all(
+    rules.map(async (rule) => {
+      try {
+        if (await rule.check(file, context)) return null;
+        const message = typeof rule.message === 'function' ? rule.message(file, context) : rule.message;
+        return { severity: rule.severity, message };
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { severity: 'error' as const, message: `校验规则 ${rule.id} 执行失败: ${reason}` };
+      }
+    })
+  );
+
+  const result: ValidationResult = { errors: [], warnings: [] };
+  violations.forEach((violation) => {
+    if (!violation) return;
+    (violation.severity === 'error' ? result.errors : result.warnings).push(violation.message);
+  });
+  return result;
+};
@@ -0,0 +1,210 @@
+import { getFileExtension } from '@/lib/fileSignature';
+
+// Reads the ZIP central directory only: entry names and sizes come from the
+// directory at the end of the file, so nothing is decompressed
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+
+const EOCD_SIZE = 22;
+const MAX_COMMENT_SIZE = 0xffff;
+const CENTRAL_HEADER_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+// Guards against a forged directory size making us read the whole file
+const MAX_CENTRAL_DIRECTORY_BYTES = 64 * 1024 * 1024;
+
+const NESTED_ARCHIVE_EXTENSIONS = ['zip', '7z', 'rar', 'gz', 'tgz', 'bz2', 'xz', 'tar', 'cab', 'iso', 'jar'];
+
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  // 0 = stored, 8 = deflate; anything else is listed but not interpreted
+  method: number;
+  isDirectory: boolean;
+  encrypted: boolean;
+  lastModified: Date | null;
+  localHeaderOffset: number;
+}
+
+export interface ZipArchiveInfo {
+  entries: ZipEntry[];
+  totalCompressedSize: number;
+  totalUncompressedSize: number;
+  // Total uncompressed size / archive size
+  compressionRatio: number;
+  nestedArchives: ZipEntry[];
+  // Entries whose compressed data overlaps another entry, the trick behind
+  // non-recursive zip bombs that reuse one compressed block many times
+  overlappingEntries: number;
+  comment: string;
+}
+
+const readBytes = async (blob: Blob, start: number, end: number) =>
+  new DataView(await blob.slice(start, end).arrayBuffer());
+
+const decodeText = (view: DataView, offset: number, length: number, utf8: boolean) =>
+  // Names without the UTF-8 flag are officially CP437, which TextDecoder does
+  // not support; in practice they are usually ASCII or the local code page
+  new TextDecoder(utf8 ? 'utf-8' : 'latin1').decode(
+    new Uint8Array(view.buffer, view.byteOffset + offset, length)
+  );
+
+const readUint64 = (view: DataView, offset: number) => Number(view.getBigUint64(offset, true));
+
+const parseDosDateTime = (date: number, time: number) => {
+  if (date === 0) return null;
+  return new Date(
+    (date >> 9) + 1980,
+    ((date >> 5) & 0x0f) - 1,
+    date & 0x1f,
+    time >> 11,
+    (time >> 5) & 0x3f,
+    (time & 0x1f) * 2
+  );
+};
+
+interface CentralDirectoryLocation {
+  offset: number;
+  size: number;
+  entryCount: number;
+  comment: string;
+}
+
+const findCentralDirectory = async (blob: Blob): Promise<CentralDirectoryLocation> => {
+  if (blob.size < EOCD_SIZE) throw new Error('文件过小，不是有效的 ZIP 压缩包');
+
+  // The end-of-central-directory record is followed only by a variable-length comment
+  const tailStart = Math.max(0, blob.size - EOCD_SIZE - MAX_COMMENT_SIZE);
+  const tail = await readBytes(blob, tailStart, blob.size);
+  let eocd = -1;
+  for (let offset = tail.byteLength - EOCD_SIZE; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === EOCD_SIGNATURE) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('找不到 ZIP 中央目录');
+
+  const commentLength = tail.getUint16(eocd + 20, true);
+  const location: CentralDirectoryLocation = {
+    entryCount: tail.getUint16(eocd + 10, true),
+    size: tail.getUint32(eocd + 12, true),
+    offset: tail.getUint32(eocd + 16, true),
+    comment: decodeText(tail, eocd + EOCD_SIZE, Math.min(commentLength, tail.byteLength - eocd - EOCD_SIZE), true),
+  };
+
+  // ZIP64 archives leave 0xFFFF / 0xFFFFFFFF in the classic record and keep
+  // the real values in a ZIP64 record found through the locator just before it
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const zip64Offset = readUint64(tail, locator + 8);
+    const zip64 = await readBytes(blob, zip64Offset, zip64Offset + 56);
+    if (zip64.byteLength < 56 || zip64.getUint32(0, true) !== ZIP64_EOCD_SIGNATURE) {
+      throw new Error('ZIP64 中央目录记录已损坏');
+    }
+    location.entryCount = readUint64(zip64, 32);
+    location.size = readUint64(zip64, 40);
+    location.offset = readUint64(zip64, 48);
+  }
+
+  if (location.offset + location.size > blob.size) throw new Error('ZIP 中央目录超出文件范围');
+  if (location.size > MAX_CENTRAL_DIRECTORY_BYTES) throw new Error('ZIP 中央目录过大');
+  return location;
+};
+
+const readZip64Extra = (view: DataView, start: number, length: number, entry: ZipEntry) => {
+  for (let offset = start; offset + 4 <= start + length; ) {
+    const id = view.getUint16(offset, true);
+    const size = view.getUint16(offset + 2, true);
+    if (id === ZIP64_EXTRA_FIELD) {
+      // Only the fields that overflowed in the header are present, in this order
+      let field = offset + 4;
+      const next = () => {
+        if (field + 8 > offset + 4 + size) return null;
+        const value = readUint64(view, field);
+        field += 8;
+        return value;
+      };
+      if (entry.uncompressedSize === 0xffffffff) entry.uncompressedSize = next() ?? entry.uncompressedSize;
+      if (entry.compressedSize === 0xffffffff) entry.compressedSize = next() ?? entry.compressedSize;
+      if (entry.localHeaderOffset === 0xffffffff) entry.localHeaderOffset = next() ?? entry.localHeaderOffset;
+      return;
+    }
+    offset += 4 + size;
+  }
+};
+
+const countOverlappingEntries = (entries: ZipEntry[], dataEnd: number) => {
+  const sorted = entries
+    .filter((entry) => !entry.isDirectory || entry.compressedSize > 0)
+    .sort((a, b) => a.localHeaderOffset - b.localHeaderOffset);
+  let overlapping = 0;
+  let previousEnd = 0;
+  for (const entry of sorted) {
+    // The local header's extra field may differ from the central one, so the
+    // data start is a lower bound; that can only under-count overlaps
+    const end = entry.localHeaderOffset + LOCAL_HEADER_SIZE + entry.name.length + entry.compressedSize;
+    if (entry.localHeaderOffset < previousEnd || end > dataEnd) overlapping++;
+    previousEnd = Math.max(previousEnd, end);
+  }
+  return overlapping;
+};
+
+export const getCompressionRatio = (entry: ZipEntry) =>
+  entry.compressedSize > 0 ? entry.uncompressedSize / entry.compressedSize : entry.uncompressedSize > 0 ? Infinity : 1;
+
+export const isNestedArchive = (entry: ZipEntry) =>
+  !entry.isDirectory && NESTED_ARCHIVE_EXTENSIONS.includes(getFileExtension(entry.name.split('/').pop() ?? ''));
+
+export const inspectZipArchive = async (blob: Blob): Promise<ZipArchiveInfo> => {
+  const location = await findCentralDirectory(blob);
+  const view = await readBytes(blob, location.offset, location.offset + location.size);
+
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  while (offset + CENTRAL_HEADER_SIZE <= view.byteLength && entries.length < location.entryCount) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error(`ZIP 中央目录第 ${entries.length + 1} 项已损坏`);
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    if (offset + CENTRAL_HEADER_SIZE + nameLength + extraLength > view.byteLength) {
+      throw new Error('ZIP 中央目录被截断');
+    }
+
+    const name = decodeText(view, offset + CENTRAL_HEADER_SIZE, nameLength, (flags & 0x0800) !== 0);
+    const entry: ZipEntry = {
+      name,
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      uncompressedSize: view.getUint32(offset + 24, true),
+      isDirectory: name.endsWith('/'),
+      encrypted: (flags & 0x0001) !== 0,
+      lastModified: parseDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true)),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    };
+    readZip64Extra(view, offset + CENTRAL_HEADER_SIZE + nameLength, extraLength, entry);
+    entries.push(entry);
+
+    offset += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+  }
+
+  const totalCompressedSize = entries.reduce((sum, entry) => sum + entry.compressedSize, 0);
+  const totalUncompressedSize = entries.reduce((sum, entry) => sum + entry.uncompressedSize, 0);
+
+  return {
+    entries,
+    totalCompressedSize,
+    totalUncompressedSize,
+    compressionRatio: blob.size > 0 ? totalUncompressedSize / blob.size : 0,
+    nestedArchives: entries.filter(isNestedArchive),
+    overlappingEntries: countOverlappingEntries(entries, location.offset),
+    comment: location.comment,
+  };
+};
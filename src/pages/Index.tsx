@@ -1,36 +1,56 @@
 
 import React, { useState } from 'react';
-import { FileUploader, UploadedFileInfo } from '@/components/FileUploader';
-import { uploadFile } from '@/services/fileService';
+import { useQuery } from '@tanstack/react-query';
+import { ConflictPolicy, FileUploader } from '@/components/FileUploader';
+import { useUploadAdapter } from '@/hooks/use-upload-adapter';
+import { UploadPriority } from '@/lib/uploadScheduler';
+import { AllowedFileTypeKind, getAllowedFileTypeKind, normalizeAllowedFileType } from '@/lib/allowedFileTypes';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 
+const fileTypeGroups: { kind: AllowedFileTypeKind; label: string }[] = [
+  { kind: 'extension', label: 'Extensions' },
+  { kind: 'mime-wildcard', label: 'MIME wildcards' },
+  { kind: 'mime', label: 'Exact MIME types' },
+];
+
 const Index = () => {
   const [maxFileSize, setMaxFileSize] = useState<number>(5);
   const [fileTypes, setFileTypes] = useState<string[]>([
     'image/jpeg', 
     'image/png', 
     'application/pdf',
-    'application/octet-stream'
+    'application/octet-stream',
+    '.dmp'
   ]);
   const [customFileType, setCustomFileType] = useState<string>('');
+  const [fileTypeError, setFileTypeError] = useState<string | null>(null);
+  const [maxConcurrentUploads, setMaxConcurrentUploads] = useState<number>(3);
+  const [uploadPriority, setUploadPriority] = useState<UploadPriority>('fifo');
+  const [conflictPolicy, setConflictPolicy] = useState<ConflictPolicy>('ask');
+  const uploadAdapter = useUploadAdapter();
+  const { data: existingFiles } = useQuery({
+    queryKey: ['uploaded-files'],
+    queryFn: () => uploadAdapter.list(),
+  });
+
+  const addCustomFileType = () => {
+    if (!customFileType) return;
 
-  const handleFileUpload = async (file: File): Promise<UploadedFileInfo> => {
-    try {
-      return await uploadFile(file);
-    } catch (error) {
-      throw error;
+    const entry = normalizeAllowedFileType(customFileType);
+    if (!entry) {
+      setFileTypeError(`"${customFileType}" is not an extension, MIME wildcard or MIME type`);
+      return;
     }
-  };
 
-  const addCustomFileType = () => {
-    if (customFileType && !fileTypes.includes(customFileType)) {
-      setFileTypes([...fileTypes, customFileType]);
-      setCustomFileType('');
+    if (!fileTypes.includes(entry)) {
+      setFileTypes([...fileTypes, entry]);
     }
+    setCustomFileType('');
+    setFileTypeError(null);
   };
 
   const removeFileType = (typeToRemove: string) => {
@@ -62,7 +82,14 @@ const Index = () => {
                   <FileUploader 
                     maxSizeInMB={maxFileSize}
                     allowedFileTypes={fileTypes}
-                    onFileUpload={handleFileUpload}
+                    initialFiles={existingFiles}
+                    onFileUpload={uploadAdapter.upload}
+                    onFileRemove={(file) => uploadAdapter.delete(file.id)}
+                    getDownloadUrl={uploadAdapter.getDownloadUrl}
+                    onValidate={uploadAdapter.preflight}
+                    maxConcurrentUploads={maxConcurrentUploads}
+                    uploadPriority={uploadPriority}
+                    conflictPolicy={conflictPolicy}
                   />
                 </CardContent>
               </Card>
@@ -96,31 +123,96 @@ const Index = () => {
                     </Select>
                   </div>
                   
+                  <div className="space-y-2">
+                    <Label htmlFor="max-concurrency">Concurrent Uploads</Label>
+                    <Select
+                      value={maxConcurrentUploads.toString()}
+                      onValueChange={(value) => setMaxConcurrentUploads(Number(value))}
+                    >
+                      <SelectTrigger id="max-concurrency">
+                        <SelectValue placeholder="Select concurrent uploads" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="1">1 (one at a time)</SelectItem>
+                        <SelectItem value="3">3</SelectItem>
+                        <SelectItem value="5">5</SelectItem>
+                        <SelectItem value="10">10</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="upload-priority">Upload Order</Label>
+                    <Select
+                      value={uploadPriority}
+                      onValueChange={(value) => setUploadPriority(value as UploadPriority)}
+                    >
+                      <SelectTrigger id="upload-priority">
+                        <SelectValue placeholder="Select upload order" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fifo">In the order added</SelectItem>
+                        <SelectItem value="smallest-first">Smallest files first</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="conflict-policy">When a File Name Already Exists</Label>
+                    <Select
+                      value={conflictPolicy}
+                      onValueChange={(value) => setConflictPolicy(value as ConflictPolicy)}
+                    >
+                      <SelectTrigger id="conflict-policy">
+                        <SelectValue placeholder="Select conflict policy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="ask">Ask each time</SelectItem>
+                        <SelectItem value="rename">Rename automatically, e.g. report (1).dmp</SelectItem>
+                        <SelectItem value="replace">Replace the existing file</SelectItem>
+                        <SelectItem value="skip">Skip the new file</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
                   <div className="space-y-4">
                     <Label>Allowed File Types</Label>
-                    <div className="flex flex-wrap gap-2">
-                      {fileTypes.map((type) => (
-                        <div 
-                          key={type}
-                          className="flex items-center bg-primary/10 text-sm rounded-full px-3 py-1"
-                        >
-                          <span>{type}</span>
-                          <button 
-                            className="ml-2 text-muted-foreground hover:text-destructive"
-                            onClick={() => removeFileType(type)}
-                          >
-                            &times;
-                          </button>
+                    {fileTypeGroups.map(({ kind, label }) => {
+                      const entries = fileTypes.filter((type) => getAllowedFileTypeKind(type) === kind);
+                      if (entries.length === 0) return null;
+
+                      return (
+                        <div key={kind} className="space-y-2">
+                          <p className="text-xs font-medium text-muted-foreground">{label}</p>
+                          <div className="flex flex-wrap gap-2">
+                            {entries.map((type) => (
+                              <div 
+                                key={type}
+                                className="flex items-center bg-primary/10 text-sm rounded-full px-3 py-1"
+                              >
+                                <span>{type}</span>
+                                <button 
+                                  className="ml-2 text-muted-foreground hover:text-destructive"
+                                  onClick={() => removeFileType(type)}
+                                >
+                                  &times;
+                                </button>
+                              </div>
+                            ))}
+                          </div>
                         </div>
-                      ))}
-                    </div>
+                      );
+                    })}
                     
                     <div className="flex gap-2">
                       <div className="flex-1">
                         <Input
-                          placeholder="Add custom file type (e.g., application/json)"
+                          placeholder="Add a file type (e.g., .log, image/*, application/json)"
                           value={customFileType}
-                          onChange={(e) => setCustomFileType(e.target.value)}
+                          onChange={(e) => {
+                            setCustomFileType(e.target.value);
+                            setFileTypeError(null);
+                          }}
                           onKeyDown={(e) => e.key === 'Enter' && addCustomFileType()}
                         />
                       </div>
@@ -131,14 +223,18 @@ const Index = () => {
                         Add
                       </button>
                     </div>
+                    {fileTypeError && (
+                      <p className="text-sm text-destructive">{fileTypeError}</p>
+                    )}
                     
                     <div className="text-xs text-muted-foreground mt-2">
                       <p>Common file types examples:</p>
                       <ul className="list-disc list-inside space-y-1 mt-1">
+                        <li>Extensions: .dmp, .log, .7z</li>
+                        <li>Wildcards: image/*, text/*</li>
                         <li>Images: image/jpeg, image/png, image/gif</li>
                         <li>Documents: application/pdf, application/msword</li>
                         <li>Data: application/json, text/csv</li>
-                        <li>Binary: application/octet-stream (for .dmp files)</li>
                       </ul>
                     </div>
                   </div>
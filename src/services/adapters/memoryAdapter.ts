@@ -0,0 +1,92 @@
+import { UploadedFileInfo, ValidationResult } from '@/components/FileUploader';
+import { UploadAdapter } from '@/services/uploadAdapter';
+import { delay } from '@/lib/abort';
+import { UploadHttpError } from '@/lib/uploadErrors';
+import { createUniqueFileName } from '@/lib/fileNameConflicts';
+
+export interface MemoryAdapterOptions {
+  // Simulated time to send the whole request body
+  latencyMs?: number;
+  // Simulated server-side size limit
+  maxSizeInBytes?: number;
+}
+
+// Keeps files in the browser as object URLs. Used for demos and tests.
+export const createMemoryAdapter = ({
+  latencyMs = 1000,
+  maxSizeInBytes = 10 * 1024 * 1024,
+}: MemoryAdapterOptions = {}): UploadAdapter => {
+  const files = new Map<string, UploadedFileInfo>();
+  const revokeUrls = (info: UploadedFileInfo) => {
+    URL.revokeObjectURL(info.url);
+    if (info.thumbnailUrl) URL.revokeObjectURL(info.thumbnailUrl);
+  };
+
+  return {
+    async upload(file, { onProgress, signal, hash, fileName = file.name, conflict = 'rename', metadata, thumbnail } = {}) {
+      const steps = 10;
+      for (let step = 1; step <= steps; step++) {
+        await delay(latencyMs / steps, signal);
+        onProgress?.({ loaded: Math.round((file.size * step) / steps), total: file.size });
+      }
+
+      // Simulate server validation
+      if (file.size > maxSizeInBytes) {
+        throw new UploadHttpError("Server rejected the file: File too large", 413);
+      }
+
+      let name = fileName;
+      const existing = Array.from(files.values()).find((info) => info.name === fileName);
+      if (existing) {
+        if (conflict === 'fail') {
+          throw new UploadHttpError(`A file named ${fileName} already exists`, 409);
+        }
+        if (conflict === 'replace') {
+          revokeUrls(existing);
+          files.delete(existing.id);
+        } else {
+          name = createUniqueFileName(fileName, Array.from(files.values(), (info) => info.name));
+        }
+      }
+
+      const info: UploadedFileInfo = {
+        id: Math.random().toString(36).substring(2, 15),
+        name,
+        url: URL.createObjectURL(file),
+        size: file.size,
+        type: file.type,
+        hash,
+        metadata,
+        thumbnailUrl: thumbnail ? URL.createObjectURL(thumbnail) : undefined,
+      };
+      files.set(info.id, info);
+      return info;
+    },
+
+    async preflight(file, { fileName = file.name } = {}) {
+      const result: ValidationResult = { errors: [], warnings: [] };
+      if (file.size > maxSizeInBytes) {
+        result.errors.push("Server rejected the file: File too large");
+      }
+      if (Array.from(files.values()).some((info) => info.name === fileName)) {
+        result.warnings.push(`A file named ${fileName} already exists on the server`);
+      }
+      return result;
+    },
+
+    async delete(fileId) {
+      const info = files.get(fileId);
+      if (!info) return;
+      revokeUrls(info);
+      files.delete(fileId);
+    },
+
+    async list() {
+      return Array.from(files.values());
+    },
+
+    async getDownloadUrl(file) {
+      return files.get(file.id)?.url ?? file.url;
+    },
+  };
+};
@@ -0,0 +1,63 @@
+import { UploadedFileInfo, ValidationResult } from '@/components/FileUploader';
+import { toPreflightRequest, UploadAdapter } from '@/services/uploadAdapter';
+import { assertSuccess, fetchJson, fetchOrThrow, sendRequest } from '@/services/transport';
+
+export interface MultipartAdapterOptions {
+  // Collection URL: POST uploads, GET lists, DELETE {endpoint}/{id} removes,
+  // POST {endpoint}/preflight checks a file before upload
+  endpoint: string;
+  fieldName?: string;
+  headers?: Record<string, string>;
+}
+
+// Sends files as multipart/form-data to a REST-style endpoint.
+export const createMultipartAdapter = ({
+  endpoint,
+  fieldName = 'file',
+  headers = {},
+}: MultipartAdapterOptions): UploadAdapter => ({
+  async upload(file, { onProgress, signal, hash, fileName = file.name, conflict = 'rename', metadata, thumbnail } = {}) {
+    const formData = new FormData();
+    // Fields before the file, so streaming parsers see them first
+    if (hash) formData.append('sha256', hash);
+    formData.append('onConflict', conflict);
+    if (metadata) formData.append('metadata', JSON.stringify(metadata));
+    if (thumbnail) formData.append('thumbnail', thumbnail, 'thumbnail');
+    formData.append(fieldName, file, fileName);
+
+    const response = await sendRequest({
+      method: 'POST',
+      url: endpoint,
+      body: formData,
+      headers,
+      onProgress,
+      signal,
+    });
+    assertSuccess(response, 'Upload failed');
+    return JSON.parse(response.body) as UploadedFileInfo;
+  },
+
+  preflight(file, { hash, fileName, signal } = {}) {
+    return fetchJson<ValidationResult>(`${endpoint}/preflight`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(toPreflightRequest(file, hash, fileName)),
+      signal,
+    });
+  },
+
+  async delete(fileId) {
+    await fetchOrThrow(`${endpoint}/${encodeURIComponent(fileId)}`, {
+      method: 'DELETE',
+      headers,
+    });
+  },
+
+  list() {
+    return fetchJson<UploadedFileInfo[]>(endpoint, { headers });
+  },
+
+  async getDownloadUrl(file) {
+    return file.url;
+  },
+});
@@ -0,0 +1,91 @@
+import { UploadedFileInfo, ValidationResult } from '@/components/FileUploader';
+import { toPreflightRequest, UploadAdapter } from '@/services/uploadAdapter';
+import { assertSuccess, fetchJson, fetchOrThrow, sendRequest } from '@/services/transport';
+
+export interface PresignedUrlAdapterOptions {
+  // API that hands out presigned URLs and keeps the file index
+  endpoint: string;
+  headers?: Record<string, string>;
+}
+
+interface PresignResponse {
+  fileId: string;
+  uploadUrl: string;
+  method?: 'PUT' | 'POST';
+  headers?: Record<string, string>;
+}
+
+// Asks the API for a presigned URL, sends the file body straight to storage,
+// then tells the API the upload is complete.
+export const createPresignedUrlAdapter = ({
+  endpoint,
+  headers = {},
+}: PresignedUrlAdapterOptions): UploadAdapter => {
+  const jsonHeaders = { ...headers, 'Content-Type': 'application/json' };
+
+  return {
+    async upload(file, { onProgress, signal, hash, fileName = file.name, conflict = 'rename', metadata, thumbnail } = {}) {
+      const presign = await fetchJson<PresignResponse>(`${endpoint}/presign`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify({ ...toPreflightRequest(file, hash, fileName), onConflict: conflict, metadata }),
+        signal,
+      });
+
+      const response = await sendRequest({
+        method: presign.method ?? 'PUT',
+        url: presign.uploadUrl,
+        body: file,
+        headers: presign.headers,
+        onProgress,
+        signal,
+      });
+      assertSuccess(response, 'Upload failed');
+
+      // The thumbnail is small enough to go through the API rather than storage
+      if (thumbnail) {
+        await fetchOrThrow(`${endpoint}/${encodeURIComponent(presign.fileId)}/thumbnail`, {
+          method: 'PUT',
+          headers: { ...headers, 'Content-Type': thumbnail.type },
+          body: thumbnail,
+          signal,
+        });
+      }
+
+      return fetchJson<UploadedFileInfo>(`${endpoint}/${encodeURIComponent(presign.fileId)}/complete`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        signal,
+      });
+    },
+
+    preflight(file, { hash, fileName, signal } = {}) {
+      return fetchJson<ValidationResult>(`${endpoint}/preflight`, {
+        method: 'POST',
+        headers: jsonHeaders,
+        body: JSON.stringify(toPreflightRequest(file, hash, fileName)),
+        signal,
+      });
+    },
+
+    async delete(fileId) {
+      await fetchOrThrow(`${endpoint}/${encodeURIComponent(fileId)}`, {
+        method: 'DELETE',
+        headers,
+      });
+    },
+
+    list() {
+      return fetchJson<UploadedFileInfo[]>(endpoint, { headers });
+    },
+
+    async getDownloadUrl(file) {
+      // Download URLs expire, so always ask for a fresh one
+      const { url } = await fetchJson<{ url: string }>(
+        `${endpoint}/${encodeURIComponent(file.id)}/download-url`,
+        { headers }
+      );
+      return url;
+    },
+  };
+};
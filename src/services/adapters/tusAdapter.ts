@@ -0,0 +1,263 @@
+import { UploadedFileInfo, UploadedFileMetadata, UploadOptions } from '@/components/FileUploader';
+import { UploadAdapter } from '@/services/uploadAdapter';
+import { assertSuccess, fetchJson, fetchOrThrow, sendRequest, TransportResponse } from '@/services/transport';
+import {
+  getResumableUpload,
+  removeResumableUpload,
+  saveResumableUpload,
+} from '@/services/resumableUploadStore';
+import { delay, isAbortError } from '@/lib/abort';
+import { formatFileSize } from '@/lib/format';
+import { trimMinidumpSummary } from '@/lib/minidump';
+import { UploadNetworkError } from '@/lib/uploadErrors';
+
+const TUS_VERSION = '1.0.0';
+
+export interface TusAdapterOptions {
+  // tus creation endpoint, e.g. http://localhost:1080/files
+  endpoint: string;
+  chunkSizeInBytes?: number;
+  // How many times a single chunk is re-sent after a network drop
+  maxChunkRetries?: number;
+  headers?: Record<string, string>;
+}
+
+const encodeBase64 = (value: string) =>
+  btoa(Array.from(new TextEncoder().encode(value), (byte) => String.fromCharCode(byte)).join(''));
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${encodeBase64(value)}`)
+    .join(',');
+
+const decodeBase64 = (value: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(value), (char) => char.charCodeAt(0)));
+
+// Servers that rename on conflict (the dev server does) echo the stored
+// metadata back on creation and HEAD; others send nothing
+const readStoredFileName = (response: TransportResponse) => {
+  const entry = response
+    .getHeader('Upload-Metadata')
+    ?.split(',')
+    .map((pair) => pair.trim().split(' '))
+    .find(([key]) => key === 'filename');
+  return entry?.[1] ? decodeBase64(entry[1]) : undefined;
+};
+
+// Upload-Metadata travels in a request header, and servers commonly cap headers
+// at 8-16 KB; larger file metadata is kept client-side only
+const MAX_FILE_METADATA_BYTES = 4 * 1024;
+
+const fitsInHeader = (json: string) => new TextEncoder().encode(json).length <= MAX_FILE_METADATA_BYTES;
+
+// A full minidump summary (every module and thread) rarely fits, so it is cut
+// down to the crash site before giving up on the metadata
+const fitFileMetadata = (metadata: UploadedFileMetadata): { json?: string; warning?: string } => {
+  const full = JSON.stringify(metadata);
+  if (fitsInHeader(full)) return { json: full };
+
+  if (metadata.minidump) {
+    const trimmed = JSON.stringify({ ...metadata, minidump: trimMinidumpSummary(metadata.minidump) });
+    if (fitsInHeader(trimmed)) {
+      return {
+        json: trimmed,
+        warning: 'Only the crash site of the minidump summary was sent, the full module and thread lists do not fit in Upload-Metadata',
+      };
+    }
+  }
+  return {
+    warning: `File metadata was not sent to the server, it exceeds the ${formatFileSize(MAX_FILE_METADATA_BYTES)} Upload-Metadata limit`,
+  };
+};
+
+const getFingerprint = (endpoint: string, file: File) =>
+  ['tus', endpoint, file.name, file.type, file.size, file.lastModified].join('::');
+
+const isRetryableResponse = (status: number) => status >= 500 || status === 409 || status === 423;
+
+// A missing or out-of-range offset would either restart the upload forever or
+// end it early, so anything outside [min, max] is treated as a protocol error
+const readOffset = (response: TransportResponse, min: number, max: number) => {
+  const header = response.getHeader('Upload-Offset');
+  const offset = header && /^\d+$/.test(header.trim()) ? Number(header) : NaN;
+  if (!Number.isSafeInteger(offset) || offset < min || offset > max) {
+    throw new Error(`tus server returned an invalid Upload-Offset: ${header ?? '(missing)'}`);
+  }
+  return offset;
+};
+
+// Implements the core tus 1.0.0 protocol plus the creation and termination
+// extensions. Upload URLs and offsets are kept in IndexedDB so a reload or
+// dropped connection continues from the last acknowledged byte.
+export const createTusAdapter = ({
+  endpoint,
+  chunkSizeInBytes = 5 * 1024 * 1024,
+  maxChunkRetries = 3,
+  headers = {},
+}: TusAdapterOptions): UploadAdapter => {
+  const tusHeaders = { ...headers, 'Tus-Resumable': TUS_VERSION };
+  const baseUrl = new URL(endpoint, window.location.href).toString();
+
+  const expectStatus = (response: TransportResponse, action: string) =>
+    assertSuccess(response, `tus ${action} failed`);
+
+  const createUpload = async (
+    file: File,
+    { hash, fileName = file.name, conflict = 'rename', metadata, signal, onWarning }: UploadOptions
+  ) => {
+    const fileMetadata = metadata ? fitFileMetadata(metadata) : {};
+    if (fileMetadata.warning) onWarning?.(fileMetadata.warning);
+    const response = await sendRequest({
+      method: 'POST',
+      url: baseUrl,
+      headers: {
+        ...tusHeaders,
+        'Upload-Length': String(file.size),
+        'Upload-Metadata': encodeMetadata({
+          filename: fileName,
+          filetype: file.type,
+          onconflict: conflict,
+          ...(hash ? { sha256: hash } : {}),
+          ...(fileMetadata.json ? { metadata: fileMetadata.json } : {}),
+        }),
+      },
+      signal,
+    });
+    expectStatus(response, 'creation');
+
+    const location = response.getHeader('Location');
+    if (!location) throw new Error('tus creation response is missing the Location header');
+    return { uploadUrl: new URL(location, baseUrl).toString(), storedName: readStoredFileName(response) };
+  };
+
+  const fetchOffset = async (uploadUrl: string, size: number, signal?: AbortSignal) => {
+    const response = await sendRequest({ method: 'HEAD', url: uploadUrl, headers: tusHeaders, signal });
+    expectStatus(response, 'offset check');
+    return { offset: readOffset(response, 0, size), storedName: readStoredFileName(response) };
+  };
+
+  return {
+    async upload(file, options = {}) {
+      const { onProgress, signal, hash, fileName = file.name, thumbnail, onWarning } = options;
+      const fingerprint = getFingerprint(baseUrl, file);
+      let uploadUrl: string | null = null;
+      let offset = 0;
+      // Name the server stored the file under, when it reports one
+      let storedName: string | undefined;
+
+      // Resume an unfinished upload of the same file if the server still has it
+      const stored = await getResumableUpload(fingerprint);
+      if (stored) {
+        try {
+          ({ offset, storedName } = await fetchOffset(stored.uploadUrl, file.size, signal));
+          uploadUrl = stored.uploadUrl;
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          // The server no longer knows this upload, start over
+          await removeResumableUpload(fingerprint);
+        }
+      }
+
+      if (!uploadUrl) {
+        ({ uploadUrl, storedName } = await createUpload(file, options));
+        offset = 0;
+      }
+
+      const persistOffset = () =>
+        saveResumableUpload({ fingerprint, uploadUrl, offset, size: file.size, updatedAt: Date.now() });
+      await persistOffset();
+      onProgress?.({ loaded: offset, total: file.size });
+
+      let failures = 0;
+      while (offset < file.size) {
+        const chunkStart = offset;
+        let response: TransportResponse | null = null;
+        try {
+          response = await sendRequest({
+            method: 'PATCH',
+            url: uploadUrl,
+            headers: {
+              ...tusHeaders,
+              'Content-Type': 'application/offset+octet-stream',
+              'Upload-Offset': String(chunkStart),
+            },
+            body: file.slice(chunkStart, chunkStart + chunkSizeInBytes),
+            onProgress: ({ loaded }) => onProgress?.({ loaded: chunkStart + loaded, total: file.size }),
+            signal,
+          });
+        } catch (error) {
+          // A rejected request means the connection dropped
+          if (isAbortError(error)) throw error;
+        }
+
+        if (response && !isRetryableResponse(response.status)) {
+          expectStatus(response, 'chunk upload');
+          // An accepted chunk has to move the offset forward, or the loop never ends
+          offset = readOffset(response, chunkStart + 1, file.size);
+          failures = 0;
+          await persistOffset();
+          continue;
+        }
+
+        failures++;
+        if (failures > maxChunkRetries) {
+          if (response) expectStatus(response, 'chunk upload');
+          throw new UploadNetworkError('tus upload interrupted, add the file again to resume');
+        }
+        await delay(1000 * failures, signal);
+        ({ offset } = await fetchOffset(uploadUrl, file.size, signal));
+      }
+
+      await removeResumableUpload(fingerprint);
+
+      // Not part of tus: the thumbnail goes to {upload}/thumbnail once the file
+      // is complete (the dev server supports it). The file itself is already
+      // stored, so a server without the endpoint only costs the thumbnail.
+      let thumbnailUrl: string | undefined;
+      if (thumbnail) {
+        try {
+          await fetchOrThrow(`${uploadUrl}/thumbnail`, {
+            method: 'PUT',
+            headers: { ...headers, 'Content-Type': thumbnail.type },
+            body: thumbnail,
+            signal,
+          });
+          thumbnailUrl = `${uploadUrl}/thumbnail`;
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          onWarning?.(`Thumbnail was not uploaded: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      const info: UploadedFileInfo = {
+        id: decodeURIComponent(uploadUrl.split('/').pop() ?? ''),
+        name: storedName ?? fileName,
+        url: uploadUrl,
+        size: file.size,
+        type: file.type,
+        hash,
+        thumbnailUrl,
+      };
+      return info;
+    },
+
+    async delete(fileId) {
+      // tus termination extension
+      const response = await sendRequest({
+        method: 'DELETE',
+        url: `${baseUrl}/${encodeURIComponent(fileId)}`,
+        headers: tusHeaders,
+      });
+      expectStatus(response, 'termination');
+    },
+
+    // Listing is not part of tus; the dev server answers GET on the endpoint
+    list() {
+      return fetchJson<UploadedFileInfo[]>(baseUrl, { headers });
+    },
+
+    async getDownloadUrl(file) {
+      return file.url;
+    },
+  };
+};
@@ -1,35 +1,39 @@
+import { UploadAdapter } from '@/services/uploadAdapter';
+import { createMemoryAdapter } from '@/services/adapters/memoryAdapter';
+import { createMultipartAdapter } from '@/services/adapters/multipartAdapter';
+import { createPresignedUrlAdapter } from '@/services/adapters/presignedUrlAdapter';
+import { createTusAdapter } from '@/services/adapters/tusAdapter';
 
-import { UploadedFileInfo } from '@/components/FileUploader';
+export type UploadAdapterKind = 'memory' | 'multipart' | 'presigned' | 'tus';
 
-// This is a simulated backend API response
-// In a real application, you would replace this with actual API calls
-export const uploadFile = async (file: File): Promise<UploadedFileInfo> => {
-  // Simulate API request delay
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  
-  // Simulate server validation
-  if (file.size > 10 * 1024 * 1024) {
-    throw new Error("Server rejected the file: File too large");
+export interface UploadAdapterConfig {
+  kind: UploadAdapterKind;
+  endpoint?: string;
+}
+
+// VITE_UPLOAD_ADAPTER picks the backend; without it, setting only
+// VITE_UPLOAD_ENDPOINT implies a multipart endpoint
+export const getUploadAdapterConfig = (): UploadAdapterConfig => {
+  const endpoint = import.meta.env.VITE_UPLOAD_ENDPOINT;
+  const kind = import.meta.env.VITE_UPLOAD_ADAPTER ?? (endpoint ? 'multipart' : 'memory');
+  return { kind, endpoint };
+};
+
+export const createUploadAdapter = ({ kind, endpoint }: UploadAdapterConfig): UploadAdapter => {
+  if (kind === 'memory') {
+    return createMemoryAdapter();
+  }
+
+  if (!endpoint) {
+    throw new Error(`The ${kind} upload adapter requires VITE_UPLOAD_ENDPOINT`);
+  }
+
+  switch (kind) {
+    case 'presigned':
+      return createPresignedUrlAdapter({ endpoint });
+    case 'tus':
+      return createTusAdapter({ endpoint });
+    default:
+      return createMultipartAdapter({ endpoint });
   }
-  
-  // In a real implementation, you would send the file to your backend
-  // const formData = new FormData();
-  // formData.append('file', file);
-  // const response = await fetch('/api/upload', {
-  //   method: 'POST',
-  //   body: formData,
-  // });
-  // if (!response.ok) throw new Error('Upload failed');
-  // return await response.json();
-  
-  // For now, we'll create a mock response
-  const mockResponse: UploadedFileInfo = {
-    id: Math.random().toString(36).substring(2, 15),
-    name: file.name,
-    url: URL.createObjectURL(file),
-    size: file.size,
-    type: file.type,
-  };
-  
-  return mockResponse;
 };
@@ -0,0 +1,59 @@
+// Persists in-progress resumable uploads in IndexedDB so they survive a reload.
+// Every call degrades to a no-op when IndexedDB is unavailable (private mode etc.).
+
+const DB_NAME = 'file-buddy-uploads';
+const STORE_NAME = 'resumable-uploads';
+
+export interface ResumableUploadRecord {
+  fingerprint: string;
+  uploadUrl: string;
+  offset: number;
+  size: number;
+  updatedAt: number;
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'fingerprint' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  createRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T | undefined> => {
+  try {
+    const database = await openDatabase();
+    return await new Promise<T>((resolve, reject) => {
+      const request = createRequest(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } catch {
+    return undefined;
+  }
+};
+
+export const getResumableUpload = (fingerprint: string) =>
+  runRequest<ResumableUploadRecord | undefined>('readonly', (store) => store.get(fingerprint));
+
+export const saveResumableUpload = async (record: ResumableUploadRecord) => {
+  await runRequest('readwrite', (store) => store.put(record));
+};
+
+export const removeResumableUpload = async (fingerprint: string) => {
+  await runRequest('readwrite', (store) => store.delete(fingerprint));
+};
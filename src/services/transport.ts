@@ -0,0 +1,99 @@
+import { UploadProgress } from '@/components/FileUploader';
+import { createAbortError } from '@/lib/abort';
+import { parseRetryAfter, UploadHttpError, UploadNetworkError } from '@/lib/uploadErrors';
+
+export interface TransportRequest {
+  method: string;
+  url: string;
+  body?: XMLHttpRequestBodyInit | null;
+  headers?: Record<string, string>;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse {
+  status: number;
+  body: string;
+  getHeader: (name: string) => string | null;
+}
+
+export const isSuccessStatus = (status: number) => status >= 200 && status < 300;
+
+export const assertSuccess = (response: TransportResponse, message: string) => {
+  if (!isSuccessStatus(response.status)) {
+    throw new UploadHttpError(
+      `${message} (${response.status})`,
+      response.status,
+      parseRetryAfter(response.getHeader('Retry-After'))
+    );
+  }
+};
+
+// fetch that maps failures onto the upload error classes
+export const fetchOrThrow = async (url: string, init?: RequestInit): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    // fetch rejects with a TypeError when the network is unreachable
+    if (error instanceof TypeError) throw new UploadNetworkError();
+    throw error;
+  }
+
+  if (!response.ok) {
+    throw new UploadHttpError(
+      `Request failed (${response.status})`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
+  }
+  return response;
+};
+
+export const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetchOrThrow(url, init);
+  return (await response.json()) as T;
+};
+
+// fetch cannot report how many request bytes have been sent,
+// so uploads go through XMLHttpRequest and its upload progress events
+export const sendRequest = (request: TransportRequest): Promise<TransportResponse> => {
+  return new Promise((resolve, reject) => {
+    const { signal } = request;
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(request.method, request.url);
+
+    Object.entries(request.headers ?? {}).forEach(([name, value]) => {
+      xhr.setRequestHeader(name, value);
+    });
+
+    if (request.onProgress) {
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          request.onProgress?.({ loaded: event.loaded, total: event.total });
+        }
+      };
+    }
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.onloadend = () => signal?.removeEventListener('abort', onAbort);
+    xhr.onabort = () => reject(createAbortError());
+    xhr.onload = () => {
+      resolve({
+        status: xhr.status,
+        body: xhr.responseText,
+        getHeader: (name) => xhr.getResponseHeader(name),
+      });
+    };
+    xhr.onerror = () => reject(new UploadNetworkError());
+
+    xhr.send(request.body ?? null);
+  });
+};
@@ -0,0 +1,27 @@
+import { PreflightOptions, UploadedFileInfo, UploadOptions, ValidationResult } from '@/components/FileUploader';
+
+// A storage backend the uploader UI can talk to. Adapters are chosen at the
+// app level (see UploadAdapterProvider), so components never import one directly.
+export interface UploadAdapter {
+  upload: (file: File, options?: UploadOptions) => Promise<UploadedFileInfo>;
+  delete: (fileId: string) => Promise<void>;
+  list: () => Promise<UploadedFileInfo[]>;
+  getDownloadUrl: (file: UploadedFileInfo) => Promise<string>;
+  // Optional "can I upload this?" check before any bytes are sent
+  preflight?: (file: File, options?: PreflightOptions) => Promise<ValidationResult>;
+}
+
+// Body of a pre-flight request
+export interface PreflightRequest {
+  name: string;
+  size: number;
+  type: string;
+  sha256?: string;
+}
+
+export const toPreflightRequest = (file: File, hash?: string, fileName = file.name): PreflightRequest => ({
+  name: fileName,
+  size: file.size,
+  type: file.type,
+  sha256: hash,
+});
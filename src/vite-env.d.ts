@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_UPLOAD_ADAPTER?: 'memory' | 'multipart' | 'presigned' | 'tus';
+  readonly VITE_UPLOAD_ENDPOINT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
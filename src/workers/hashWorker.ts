@@ -0,0 +1,30 @@
+import { createSha256 } from '@/lib/sha256';
+
+export interface HashWorkerRequest {
+  file: Blob;
+}
+
+export type HashWorkerMessage =
+  | { type: 'progress'; loaded: number }
+  | { type: 'done'; hash: string }
+  | { type: 'error'; message: string };
+
+const CHUNK_SIZE = 4 * 1024 * 1024;
+
+const post = (message: HashWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<HashWorkerRequest>) => {
+  const { file } = event.data;
+  const sha256 = createSha256();
+
+  try {
+    for (let offset = 0; offset < file.size; offset += CHUNK_SIZE) {
+      const chunk = await file.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+      sha256.update(new Uint8Array(chunk));
+      post({ type: 'progress', loaded: Math.min(offset + CHUNK_SIZE, file.size) });
+    }
+    post({ type: 'done', hash: sha256.digest() });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -0,0 +1,38 @@
+export interface ThumbnailWorkerRequest {
+  // Encoded image file, or a frame the main thread already captured (video, PDF page)
+  source: Blob | ImageBitmap;
+  maxSize: number;
+  mimeType: string;
+  quality: number;
+}
+
+export type ThumbnailWorkerMessage =
+  | { type: 'done'; blob: Blob; width: number; height: number }
+  | { type: 'error'; message: string };
+
+const post = (message: ThumbnailWorkerMessage) => self.postMessage(message);
+
+self.addEventListener('message', async (event: MessageEvent<ThumbnailWorkerRequest>) => {
+  const { source, maxSize, mimeType, quality } = event.data;
+  let bitmap: ImageBitmap | null = null;
+
+  try {
+    bitmap = source instanceof Blob ? await createImageBitmap(source) : source;
+    const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('OffscreenCanvas 2D context is not available');
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    // Browsers that cannot encode mimeType fall back to PNG
+    post({ type: 'done', blob: await canvas.convertToBlob({ type: mimeType, quality }), width, height });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  } finally {
+    bitmap?.close();
+  }
+});